@@ -0,0 +1,24 @@
+import { readFileSync, writeFileSync } from "node:fs";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { modelsFromOpenApi } from "../src/openapi.js";
+
+const [specPath, outPath] = process.argv.slice(2);
+if (!specPath) {
+  console.error("Usage: npm run generate:models -- <openapi.json> [out.ts]");
+  process.exit(1);
+}
+
+const target =
+  outPath ?? path.join(path.dirname(fileURLToPath(import.meta.url)), "..", "src", "models.generated.ts");
+const models = modelsFromOpenApi(JSON.parse(readFileSync(specPath, "utf8")));
+
+const source = `// Generated by \`npm run generate:models\` from Krea's OpenAPI spec. Do not edit by hand;
+// hand-written entries in models.ts override these by endpoint.
+import type { ModelDefinition } from "./models.js";
+
+export const GENERATED_IMAGE_MODELS: Record<string, ModelDefinition> = ${JSON.stringify(models, null, 2)};
+`;
+
+writeFileSync(target, source, "utf8");
+console.error(`Wrote ${Object.keys(models).length} model definitions to ${target}.`);
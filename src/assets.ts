@@ -0,0 +1,161 @@
+import { createHash } from "node:crypto";
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { invalidInput } from "./errors.js";
+import { extractHttpUrls, stringifyUnknown, type KreaClient } from "./kreaClient.js";
+import { defaultDataDir } from "./jobStore.js";
+import { resolveLocalPath } from "./localPaths.js";
+
+const CACHE_FILE_NAME = "assets.json";
+const CACHE_VERSION = 1;
+
+const CONTENT_TYPES_BY_EXTENSION: Record<string, string> = {
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".webp": "image/webp",
+  ".gif": "image/gif",
+  ".avif": "image/avif"
+};
+
+export interface CachedAsset {
+  url: string;
+  content_type: string;
+  bytes: number;
+  uploaded_at: string;
+}
+
+interface CacheFile {
+  version: number;
+  assets: Record<string, CachedAsset>;
+}
+
+/**
+ * True for values accepted wherever the tools take an image: http(s) URLs,
+ * file:// URLs, absolute local paths and base64 data URIs.
+ */
+export function isImageSource(value: string): boolean {
+  if (path.isAbsolute(value)) {
+    return true;
+  }
+  try {
+    const url = new URL(value);
+    return url.protocol === "http:" || url.protocol === "https:" || url.protocol === "file:" || url.protocol === "data:";
+  } catch {
+    return false;
+  }
+}
+
+export function isRemoteUrl(value: string): boolean {
+  return /^https?:\/\//i.test(value);
+}
+
+export class AssetUploader {
+  private readonly filePath: string;
+  private cache: Record<string, CachedAsset> | null = null;
+  private writeChain: Promise<void> = Promise.resolve();
+
+  constructor(dataDir: string) {
+    this.filePath = path.join(dataDir, CACHE_FILE_NAME);
+  }
+
+  static fromEnv(): AssetUploader {
+    return new AssetUploader(defaultDataDir());
+  }
+
+  /**
+   * Returns a URL Krea can fetch for the given image source. Remote URLs pass
+   * through; local files and data URIs are uploaded once per content hash.
+   */
+  async resolve(client: KreaClient, source: string): Promise<string> {
+    if (isRemoteUrl(source)) {
+      return source;
+    }
+
+    const { data, contentType, fileName } = await readImageSource(source);
+    const hash = createHash("sha256").update(data).digest("hex");
+    const cache = await this.load();
+    const cached = cache[hash];
+    if (cached) {
+      return cached.url;
+    }
+
+    const response = await client.uploadAsset(data, fileName, contentType);
+    const url = extractHttpUrls(response)[0];
+    if (!url) {
+      throw new Error(`Krea asset upload did not return an image URL. Response: ${stringifyUnknown(response)}`);
+    }
+
+    cache[hash] = {
+      url,
+      content_type: contentType,
+      bytes: data.length,
+      uploaded_at: new Date().toISOString()
+    };
+    await this.persist();
+    return url;
+  }
+
+  private async load(): Promise<Record<string, CachedAsset>> {
+    if (this.cache) {
+      return this.cache;
+    }
+    try {
+      const parsed = JSON.parse(await readFile(this.filePath, "utf8")) as Partial<CacheFile>;
+      this.cache = parsed.assets ?? {};
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        throw error;
+      }
+      this.cache = {};
+    }
+    return this.cache;
+  }
+
+  private persist(): Promise<void> {
+    const write = async () => {
+      const body: CacheFile = { version: CACHE_VERSION, assets: this.cache ?? {} };
+      const tempPath = `${this.filePath}.tmp`;
+      await mkdir(path.dirname(this.filePath), { recursive: true });
+      await writeFile(tempPath, JSON.stringify(body, null, 2), "utf8");
+      await rename(tempPath, this.filePath);
+    };
+    this.writeChain = this.writeChain.then(write, write);
+    return this.writeChain;
+  }
+}
+
+export async function readImageSource(
+  source: string
+): Promise<{ data: Buffer; contentType: string; fileName: string }> {
+  if (source.startsWith("data:")) {
+    const match = /^data:([^;,]+)?((?:;[^;,]+)*?)(;base64)?,(.*)$/s.exec(source);
+    if (!match) {
+      throw invalidInput("Invalid data URI.", "image_url");
+    }
+    const contentType = match[1] ?? "application/octet-stream";
+    const data = match[3] ? Buffer.from(match[4], "base64") : Buffer.from(decodePercentEncoded(match[4]), "utf8");
+    const extension = Object.keys(CONTENT_TYPES_BY_EXTENSION).find(
+      (key) => CONTENT_TYPES_BY_EXTENSION[key] === contentType
+    );
+    return { data, contentType, fileName: `upload${extension ?? ""}` };
+  }
+
+  const filePath = await resolveLocalPath(source.startsWith("file:") ? fileURLToPath(source) : source);
+  const extension = path.extname(filePath).toLowerCase();
+  const contentType = CONTENT_TYPES_BY_EXTENSION[extension];
+  if (!contentType) {
+    throw invalidInput(`Unsupported image file type "${extension || "none"}" for ${filePath}.`);
+  }
+  const data = await readFile(filePath);
+  return { data, contentType, fileName: path.basename(filePath) };
+}
+
+function decodePercentEncoded(text: string): string {
+  try {
+    return decodeURIComponent(text);
+  } catch {
+    throw invalidInput("Invalid data URI.", "image_url");
+  }
+}
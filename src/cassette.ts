@@ -0,0 +1,213 @@
+import { readFileSync } from "node:fs";
+import { mkdir, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+import type { HttpTransport } from "./kreaClient.js";
+
+const CASSETTE_VERSION = 1;
+const REDACTED = "<redacted>";
+const MIN_REDACTED_KEY_LENGTH = 8;
+// The webhook secret travels as the `token` query parameter of `webhookUrl`.
+const WEBHOOK_TOKEN_PATTERN = /([?&]token=)[^&"\s]+/g;
+// Headers that differ per request and only add noise to a cassette.
+const SKIPPED_RESPONSE_HEADERS = new Set(["date", "set-cookie", "content-length", "connection", "keep-alive", "transfer-encoding"]);
+
+export interface CassetteInteraction {
+  request: {
+    method: string;
+    /** Path and query relative to the API base URL. */
+    path: string;
+    headers: Record<string, string>;
+    body: unknown;
+  };
+  response: {
+    status: number;
+    headers: Record<string, string>;
+    body: string;
+  };
+}
+
+interface CassetteFile {
+  version: number;
+  interactions: CassetteInteraction[];
+}
+
+// KreaClient is created per tool call, so recorders and players are shared per file.
+const recorders = new Map<string, CassetteRecorder>();
+const players = new Map<string, CassettePlayer>();
+
+/**
+ * Returns the transport selected by `KREA_RECORD=path` (call Krea and save
+ * every exchange) or `KREA_REPLAY=path` (serve saved exchanges, no network),
+ * or undefined when neither is set.
+ */
+export function cassetteTransportFromEnv(apiKey: string): HttpTransport | undefined {
+  const recordPath = process.env.KREA_RECORD;
+  const replayPath = process.env.KREA_REPLAY;
+  if (recordPath && replayPath) {
+    throw new Error("Set either KREA_RECORD or KREA_REPLAY, not both.");
+  }
+  if (recordPath) {
+    const filePath = path.resolve(recordPath);
+    let recorder = recorders.get(filePath);
+    if (!recorder) {
+      recorder = new CassetteRecorder(filePath, apiKey);
+      recorders.set(filePath, recorder);
+    }
+    return recorder.transport;
+  }
+  if (replayPath) {
+    const filePath = path.resolve(replayPath);
+    let player = players.get(filePath);
+    if (!player) {
+      player = new CassettePlayer(filePath);
+      players.set(filePath, player);
+    }
+    return player.transport;
+  }
+  return undefined;
+}
+
+/**
+ * Sends requests with `fetch` and appends each request/response pair to the
+ * cassette file, with the API key and webhook token redacted. The file is rewritten after every
+ * exchange so an interrupted session still leaves a usable cassette.
+ */
+class CassetteRecorder {
+  private readonly filePath: string;
+  private readonly apiKey: string;
+  private readonly interactions: CassetteInteraction[] = [];
+  private writeChain: Promise<void> = Promise.resolve();
+
+  constructor(filePath: string, apiKey: string) {
+    this.filePath = filePath;
+    this.apiKey = apiKey;
+  }
+
+  readonly transport: HttpTransport = async (url, init) => {
+    const response = await fetch(url, init);
+    const body = await response.text();
+    const { pathname, search } = new URL(url);
+
+    this.interactions.push({
+      request: {
+        method: (init.method ?? "GET").toUpperCase(),
+        path: this.redact(`${pathname}${search}`),
+        headers: this.redactHeaders(new Headers(init.headers)),
+        body: this.describeBody(init.body)
+      },
+      response: {
+        status: response.status,
+        headers: recordResponseHeaders(response.headers),
+        body: this.redact(body)
+      }
+    });
+    await this.save();
+
+    return new Response(nullBodyStatus(response.status) ? null : body, {
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers
+    });
+  };
+
+  private save(): Promise<void> {
+    const file: CassetteFile = { version: CASSETTE_VERSION, interactions: this.interactions };
+    const write = async () => {
+      const tempPath = `${this.filePath}.tmp`;
+      await mkdir(path.dirname(this.filePath), { recursive: true });
+      await writeFile(tempPath, JSON.stringify(file, null, 2), "utf8");
+      await rename(tempPath, this.filePath);
+    };
+    this.writeChain = this.writeChain.then(write, write);
+    return this.writeChain;
+  }
+
+  private redactHeaders(headers: Headers): Record<string, string> {
+    const recorded: Record<string, string> = {};
+    headers.forEach((value, name) => {
+      recorded[name] = name === "authorization" ? `Bearer ${REDACTED}` : this.redact(value);
+    });
+    return recorded;
+  }
+
+  private describeBody(body: BodyInit | null | undefined): unknown {
+    if (body === undefined || body === null) {
+      return null;
+    }
+    if (typeof body !== "string") {
+      // Asset uploads; the file bytes are not worth keeping.
+      return body instanceof FormData ? "<multipart form data>" : "<binary body>";
+    }
+    const text = this.redact(body);
+    try {
+      return JSON.parse(text);
+    } catch {
+      return text;
+    }
+  }
+
+  private redact(text: string): string {
+    const redacted = text.replace(WEBHOOK_TOKEN_PATTERN, `$1${REDACTED}`);
+    // Very short placeholder keys would match ordinary text.
+    return this.apiKey.length >= MIN_REDACTED_KEY_LENGTH ? redacted.replaceAll(this.apiKey, REDACTED) : redacted;
+  }
+}
+
+/**
+ * Serves recorded responses without touching the network. Each request takes
+ * the first unused interaction with the same method and path, so repeated
+ * `GET /jobs/{id}` calls replay the recorded status sequence in order.
+ */
+class CassettePlayer {
+  private readonly filePath: string;
+  private readonly interactions: CassetteInteraction[];
+  private readonly used: boolean[];
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+    let file: CassetteFile;
+    try {
+      file = JSON.parse(readFileSync(filePath, "utf8")) as CassetteFile;
+    } catch (error) {
+      throw new Error(`Failed to read cassette ${filePath}: ${(error as Error).message}`);
+    }
+    if (file.version !== CASSETTE_VERSION || !Array.isArray(file.interactions)) {
+      throw new Error(`Unsupported cassette format in ${filePath}.`);
+    }
+    this.interactions = file.interactions;
+    this.used = file.interactions.map(() => false);
+  }
+
+  readonly transport: HttpTransport = async (url, init) => {
+    init.signal?.throwIfAborted();
+    const method = (init.method ?? "GET").toUpperCase();
+    const { pathname, search } = new URL(url);
+    const requestPath = `${pathname}${search}`;
+
+    const index = this.interactions.findIndex(
+      (interaction, position) =>
+        !this.used[position] && interaction.request.method === method && interaction.request.path === requestPath
+    );
+    if (index === -1) {
+      throw new Error(`Cassette ${this.filePath} has no unused response for ${method} ${requestPath}.`);
+    }
+    this.used[index] = true;
+
+    const { status, headers, body } = this.interactions[index].response;
+    return new Response(nullBodyStatus(status) ? null : body, { status, headers });
+  };
+}
+
+function recordResponseHeaders(headers: Headers): Record<string, string> {
+  const recorded: Record<string, string> = {};
+  headers.forEach((value, name) => {
+    if (!SKIPPED_RESPONSE_HEADERS.has(name)) {
+      recorded[name] = value;
+    }
+  });
+  return recorded;
+}
+
+function nullBodyStatus(status: number): boolean {
+  return status === 204 || status === 205 || status === 304;
+}
@@ -0,0 +1,82 @@
+import { mkdir, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { pathToFileURL } from "node:url";
+import { resolveLocalPath } from "./localPaths.js";
+
+export interface ContactSheetEntry {
+  model: string;
+  title: string;
+  status: string;
+  elapsed_ms: number;
+  images: string[];
+  error: string | null;
+}
+
+/**
+ * Writes a self-contained HTML page showing one column per model. Images are
+ * given as remote URLs or absolute local paths.
+ */
+export async function writeContactSheet(
+  filePath: string,
+  prompt: string,
+  entries: ContactSheetEntry[]
+): Promise<string> {
+  const target = await resolveLocalPath(filePath, "html_path");
+  await mkdir(path.dirname(target), { recursive: true });
+  await writeFile(target, renderContactSheet(prompt, entries), "utf8");
+  return target;
+}
+
+function renderContactSheet(prompt: string, entries: ContactSheetEntry[]): string {
+  const cards = entries
+    .map((entry) => {
+      const images =
+        entry.images.length > 0
+          ? entry.images
+              .map((image) => `<a href="${escapeHtml(toHref(image))}"><img src="${escapeHtml(toHref(image))}" alt=""></a>`)
+              .join("\n")
+          : `<p class="error">${escapeHtml(entry.error ?? "No images")}</p>`;
+      return `<section>
+<h2>${escapeHtml(entry.title)}</h2>
+<p class="meta">${escapeHtml(entry.model)} &middot; ${escapeHtml(entry.status)} &middot; ${(entry.elapsed_ms / 1000).toFixed(1)}s</p>
+${images}
+</section>`;
+    })
+    .join("\n");
+
+  return `<!doctype html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>Krea model comparison</title>
+<style>
+body { font-family: system-ui, sans-serif; margin: 24px; }
+main { display: grid; grid-template-columns: repeat(auto-fill, minmax(280px, 1fr)); gap: 16px; }
+section { border: 1px solid #ddd; border-radius: 8px; padding: 12px; }
+h2 { font-size: 16px; margin: 0 0 4px; }
+img { width: 100%; border-radius: 4px; margin-top: 8px; }
+.meta { color: #666; font-size: 13px; margin: 0; }
+.error { color: #b00020; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(prompt)}</h1>
+<main>
+${cards}
+</main>
+</body>
+</html>
+`;
+}
+
+function toHref(image: string): string {
+  return path.isAbsolute(image) ? pathToFileURL(image).href : image;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
@@ -0,0 +1,236 @@
+import { invalidInput } from "./errors.js";
+import type { ModelDefinition, ParameterSpec } from "./models.js";
+
+const DEFAULT_DIMENSION_MULTIPLE = 8;
+const DEFAULT_TARGET_PIXELS = 1024 * 1024;
+// Ratios closer than this (in log space, about 1%) count as the same shape.
+const RATIO_TOLERANCE = 0.01;
+
+export interface SizeRequest {
+  width?: number;
+  height?: number;
+  size?: string;
+  aspect_ratio?: string;
+  megapixels?: number;
+  long_edge?: number;
+}
+
+export interface ResolvedSize {
+  width?: number;
+  height?: number;
+  /** Value for the model's own aspect-ratio field. */
+  aspect_ratio?: string;
+  warnings: string[];
+}
+
+/** True when the model can honour `aspect_ratio` one way or another. */
+export function supportsAspectRatio(model: ModelDefinition): boolean {
+  return Boolean(model.parameters.aspect_ratio || hasDimensions(model));
+}
+
+/** True when `megapixels` / `long_edge` affect the request for the model. */
+export function supportsSizeTarget(model: ModelDefinition): boolean {
+  return !model.parameters.aspect_ratio && hasDimensions(model);
+}
+
+/**
+ * Resolves the requested size into what the model accepts: explicit width and
+ * height or a `size` string, snapped to the model's step, or the model
+ * defaults; or, for `aspect_ratio`, the
+ * model's own aspect-ratio field, the closest allowed size, or dimensions fitted
+ * to the target area and rounded to the model's step within its limits.
+ */
+export function resolveSize(model: ModelDefinition, request: SizeRequest): ResolvedSize {
+  if (request.aspect_ratio === undefined) {
+    if (request.megapixels !== undefined || request.long_edge !== undefined) {
+      throw invalidInput("megapixels and long_edge require aspect_ratio.", "aspect_ratio");
+    }
+    const size = parseSize(request.size);
+    const warnings: string[] = [];
+    const width = snapExplicit("width", request.width ?? size?.width, model.parameters.width, warnings);
+    const height = snapExplicit("height", request.height ?? size?.height, model.parameters.height, warnings);
+    return {
+      width: width ?? (model.requiredFields.includes("width") ? model.defaultWidth : undefined),
+      height: height ?? (model.requiredFields.includes("height") ? model.defaultHeight : undefined),
+      warnings
+    };
+  }
+
+  if (request.width !== undefined || request.height !== undefined || request.size !== undefined) {
+    throw invalidInput("aspect_ratio cannot be combined with width, height or size.", "aspect_ratio");
+  }
+  if (request.megapixels !== undefined && request.long_edge !== undefined) {
+    throw invalidInput("Pass either megapixels or long_edge, not both.", "long_edge");
+  }
+
+  const field = model.parameters.aspect_ratio;
+  if (field) {
+    const match = matchAspectRatio(request.aspect_ratio, field.values);
+    return { aspect_ratio: match.value, warnings: match.warnings };
+  }
+  const ratio = parseAspectRatio(request.aspect_ratio);
+  if (model.allowedSizes) {
+    return closestAllowedSize(model.allowedSizes, request.aspect_ratio, ratio, targetPixels(model, request));
+  }
+  if (model.parameters.width && model.parameters.height) {
+    return fitDimensions(model.parameters.width, model.parameters.height, ratio, targetPixels(model, request), request);
+  }
+  return { warnings: [] };
+}
+
+export function parseAspectRatio(value: string): number {
+  const match = /^(\d+(?:\.\d+)?):(\d+(?:\.\d+)?)$/.exec(value.trim());
+  const width = match ? Number(match[1]) : 0;
+  const height = match ? Number(match[2]) : 0;
+  if (!(width > 0) || !(height > 0)) {
+    throw invalidInput(`Invalid aspect_ratio "${value}". Use WIDTH:HEIGHT, e.g. 16:9.`, "aspect_ratio");
+  }
+  return width / height;
+}
+
+export function parseSize(size: string | undefined): { width: number; height: number } | undefined {
+  if (!size) {
+    return undefined;
+  }
+  const match = /^([1-9][0-9]*)x([1-9][0-9]*)$/.exec(size);
+  if (!match) {
+    return undefined;
+  }
+  return {
+    width: Number(match[1]),
+    height: Number(match[2])
+  };
+}
+
+function hasDimensions(model: ModelDefinition): boolean {
+  return Boolean(model.parameters.width && model.parameters.height);
+}
+
+/**
+ * Picks the model's own aspect-ratio value closest in shape to the requested
+ * one. Without a list of accepted values the request passes through.
+ */
+export function matchAspectRatio(
+  requested: string,
+  values: readonly string[] | undefined
+): { value: string; warnings: string[] } {
+  const ratio = parseAspectRatio(requested);
+  if (!values || values.includes(requested)) {
+    return { value: requested, warnings: [] };
+  }
+  const choices = values.flatMap((value) => {
+    try {
+      return [{ value, ratio: parseAspectRatio(value) }];
+    } catch {
+      return [];
+    }
+  });
+  if (choices.length === 0) {
+    throw invalidInput(`aspect_ratio must be one of: ${values.join(", ")}.`, "aspect_ratio");
+  }
+  const closest = minBy(choices, (choice) => ratioDistance(choice.ratio, ratio));
+  const warnings =
+    ratioDistance(closest.ratio, ratio) > RATIO_TOLERANCE
+      ? [`aspect_ratio ${requested} is not offered by the model; using the closest, ${closest.value}.`]
+      : [];
+  return { value: closest.value, warnings };
+}
+
+function closestAllowedSize(
+  allowedSizes: readonly string[],
+  requested: string,
+  ratio: number,
+  pixels: number
+): ResolvedSize {
+  const sizes = allowedSizes.map((size) => parseSize(size)!);
+  const closest = minBy(
+    sizes,
+    // Shape first; among equally close shapes, the area nearest the target.
+    (size) => ratioDistance(size.width / size.height, ratio) * 1000 + Math.abs(Math.log((size.width * size.height) / pixels))
+  );
+  const warnings =
+    ratioDistance(closest.width / closest.height, ratio) > RATIO_TOLERANCE
+      ? [`aspect_ratio ${requested} is not available; using the closest allowed size, ${closest.width}x${closest.height}.`]
+      : [];
+  return { width: closest.width, height: closest.height, warnings };
+}
+
+function fitDimensions(
+  widthSpec: ParameterSpec,
+  heightSpec: ParameterSpec,
+  ratio: number,
+  pixels: number,
+  request: SizeRequest
+): ResolvedSize {
+  let width: number;
+  let height: number;
+  if (request.long_edge !== undefined) {
+    width = ratio >= 1 ? request.long_edge : request.long_edge * ratio;
+    height = ratio >= 1 ? request.long_edge / ratio : request.long_edge;
+  } else {
+    width = Math.sqrt(pixels * ratio);
+    height = Math.sqrt(pixels / ratio);
+  }
+
+  const warnings: string[] = [];
+  const shrink = Math.min(1, (widthSpec.max ?? Infinity) / width, (heightSpec.max ?? Infinity) / height);
+  const grow = Math.max(1, (widthSpec.min ?? 0) / (width * shrink), (heightSpec.min ?? 0) / (height * shrink));
+  if (shrink < 1 || grow > 1) {
+    warnings.push("The requested size is outside the model's limits and was scaled to fit.");
+  }
+
+  return {
+    width: snapToStep(width * shrink * grow, widthSpec),
+    height: snapToStep(height * shrink * grow, heightSpec),
+    warnings
+  };
+}
+
+function targetPixels(model: ModelDefinition, request: SizeRequest): number {
+  if (request.megapixels !== undefined) {
+    return request.megapixels * 1_000_000;
+  }
+  if (request.long_edge !== undefined) {
+    return request.long_edge * request.long_edge;
+  }
+  if (model.defaultWidth !== undefined && model.defaultHeight !== undefined) {
+    return model.defaultWidth * model.defaultHeight;
+  }
+  return DEFAULT_TARGET_PIXELS;
+}
+
+/**
+ * Rounds an explicit dimension to the model's required multiple, with a
+ * warning. Values outside the model's limits are left for validation to reject.
+ */
+function snapExplicit(
+  name: "width" | "height",
+  value: number | undefined,
+  spec: ParameterSpec | undefined,
+  warnings: string[]
+): number | undefined {
+  if (value === undefined || spec?.multipleOf === undefined || value % spec.multipleOf === 0) {
+    return value;
+  }
+  if ((spec.min !== undefined && value < spec.min) || (spec.max !== undefined && value > spec.max)) {
+    return value;
+  }
+  const snapped = snapToStep(value, spec);
+  warnings.push(`${name} ${value} is not a multiple of ${spec.multipleOf} for the model; using ${snapped}.`);
+  return snapped;
+}
+
+function snapToStep(value: number, spec: ParameterSpec): number {
+  const step = spec.multipleOf ?? DEFAULT_DIMENSION_MULTIPLE;
+  const lowest = Math.ceil((spec.min ?? step) / step) * step;
+  const highest = spec.max !== undefined ? Math.floor(spec.max / step) * step : Infinity;
+  return Math.min(highest, Math.max(lowest, Math.round(value / step) * step));
+}
+
+function ratioDistance(a: number, b: number): number {
+  return Math.abs(Math.log(a / b));
+}
+
+function minBy<T>(items: readonly T[], score: (item: T) => number): T {
+  return items.reduce((best, item) => (score(item) < score(best) ? item : best));
+}
@@ -0,0 +1,219 @@
+import { KreaApiError, KreaTimeoutError } from "./kreaClient.js";
+
+export type ErrorCode =
+  | "auth_failed"
+  | "insufficient_credits"
+  | "budget_exceeded"
+  | "rate_limited"
+  | "content_moderated"
+  | "validation_failed"
+  | "not_found"
+  | "upstream_error"
+  | "timeout"
+  | "cancelled"
+  | "unclassified";
+
+export interface ErrorDetails {
+  code: ErrorCode;
+  message: string;
+  retryable: boolean;
+  suggestion: string | null;
+  /** Offending request field for validation errors, as Krea names it. */
+  field: string | null;
+  http_status: number | null;
+  /** Set when the job exists on Krea and can still be checked or resumed. */
+  job_id: string | null;
+}
+
+const MODERATION_PATTERN = /moderat|nsfw|safety|content policy|flagged|inappropriate/i;
+const CREDITS_PATTERN = /insufficient (?:credits|balance|funds)|out of credits|not enough credits|payment required/i;
+
+const SUGGESTIONS: Record<ErrorCode, string | null> = {
+  auth_failed: "Check that KREA_API_KEY is set to a valid, active Krea API key.",
+  insufficient_credits: "Add credits to the Krea account, or lower batch_size or the output size.",
+  budget_exceeded:
+    "Lower batch_size or the output size, or raise KREA_DAILY_CREDIT_LIMIT / KREA_CALL_CREDIT_LIMIT or budget in the project config.",
+  rate_limited: "Wait a moment and retry; lower concurrency for batch and compare calls.",
+  content_moderated: "Rephrase the prompt or use a different input image; the request was blocked by moderation.",
+  validation_failed: "Fix the named field; krea_list_models lists each model's accepted parameters and ranges.",
+  not_found: "Check the id; jobs and styles from another account or a deleted style are not visible.",
+  upstream_error: "Retry the request; if it keeps failing, try another model or try again later.",
+  timeout: "Retry, or raise timeout_ms.",
+  cancelled: "Check the job with krea_get_job, or resume waiting with krea_wait_for_job if it is still running.",
+  unclassified: null
+};
+
+/**
+ * An error with a stable code, returned to MCP clients as an `isError` tool
+ * result instead of a bare message.
+ */
+export class KreaToolError extends Error {
+  readonly details: ErrorDetails;
+
+  constructor(details: Omit<ErrorDetails, "suggestion" | "field" | "http_status" | "job_id"> & Partial<ErrorDetails>) {
+    super(details.message);
+    this.name = "KreaToolError";
+    this.details = {
+      code: details.code,
+      message: details.message,
+      retryable: details.retryable,
+      suggestion: details.suggestion ?? SUGGESTIONS[details.code],
+      field: details.field ?? null,
+      http_status: details.http_status ?? null,
+      job_id: details.job_id ?? null
+    };
+  }
+}
+
+/** A Krea response that is missing something the server relies on. */
+export function unexpectedResponse(message: string): KreaToolError {
+  return new KreaToolError({ code: "upstream_error", message, retryable: false });
+}
+
+/** A request rejected before anything was sent to Krea. */
+export function invalidInput(message: string, field: string | null = null): KreaToolError {
+  return new KreaToolError({ code: "validation_failed", message, retryable: false, field });
+}
+
+/** Several fields rejected at once; `field` names the first of them. */
+export function invalidFields(errors: { field: string; message: string }[]): KreaToolError {
+  return invalidInput(errors.map((error) => error.message).join(" "), errors[0]?.field ?? null);
+}
+
+/** Maps any error thrown while running a tool to its category. */
+export function classifyError(error: unknown): ErrorDetails {
+  if (error instanceof KreaToolError) {
+    return error.details;
+  }
+  if (error instanceof KreaApiError) {
+    return classifyApiError(error);
+  }
+  if (error instanceof KreaTimeoutError) {
+    return new KreaToolError({ code: "timeout", message: error.message, retryable: true }).details;
+  }
+  if (error instanceof TypeError && error.message === "fetch failed") {
+    return new KreaToolError({
+      code: "upstream_error",
+      message: `Could not reach the Krea API: ${describeCause(error)}`,
+      retryable: true
+    }).details;
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  return new KreaToolError({ code: "unclassified", message, retryable: false }).details;
+}
+
+/**
+ * Classifies the `error` of a job that ended with status `failed`. Failures
+ * that are not moderation or billing are treated as upstream failures.
+ */
+export function classifyJobFailure(jobId: string, jobError: unknown): ErrorDetails {
+  const message = readMessage(jobError) ?? `Job ${jobId} failed.`;
+  const code: ErrorCode = MODERATION_PATTERN.test(message)
+    ? "content_moderated"
+    : CREDITS_PATTERN.test(message)
+      ? "insufficient_credits"
+      : "upstream_error";
+  return new KreaToolError({ code, message, retryable: code === "upstream_error", job_id: jobId }).details;
+}
+
+function classifyApiError(error: KreaApiError): ErrorDetails {
+  const body = parseBody(error.body);
+  const detail = readMessage(body);
+  const message = detail ? `Krea API error ${error.status}: ${detail}` : error.message;
+  const text = `${detail ?? ""} ${error.body}`;
+  const details = (code: ErrorCode, retryable: boolean, field: string | null = null) =>
+    new KreaToolError({ code, message, retryable, field, http_status: error.status }).details;
+
+  if (error.status === 402 || CREDITS_PATTERN.test(text)) {
+    return details("insufficient_credits", false);
+  }
+  if (error.status === 401 || error.status === 403) {
+    return details("auth_failed", false);
+  }
+  if (error.status === 429) {
+    return details("rate_limited", true);
+  }
+  if (MODERATION_PATTERN.test(text)) {
+    return details("content_moderated", false);
+  }
+  if (error.status === 404) {
+    return details("not_found", false);
+  }
+  if (error.status === 408 || error.status === 504) {
+    return details("timeout", true);
+  }
+  if (error.status === 400 || error.status === 422) {
+    return details("validation_failed", false, readField(body));
+  }
+  if (error.status >= 500) {
+    return details("upstream_error", true);
+  }
+  return details("unclassified", false);
+}
+
+function parseBody(body: string): unknown {
+  try {
+    return JSON.parse(body);
+  } catch {
+    return body;
+  }
+}
+
+function readMessage(value: unknown): string | undefined {
+  if (typeof value === "string") {
+    return value.trim().length > 0 ? value : undefined;
+  }
+  if (!value || typeof value !== "object") {
+    return undefined;
+  }
+  const record = value as Record<string, unknown>;
+  for (const key of ["message", "error", "detail", "reason"]) {
+    const nested = readMessage(record[key]);
+    if (nested) {
+      return nested;
+    }
+  }
+  const issues = record.errors ?? record.details ?? record.detail;
+  if (Array.isArray(issues)) {
+    return readMessage(issues[0]) ?? readMessage((issues[0] as Record<string, unknown> | undefined)?.msg);
+  }
+  return undefined;
+}
+
+/**
+ * Finds the offending field in common validation error bodies: a top-level
+ * `field` / `param`, or the path of the first issue (`path`, `loc`).
+ */
+function readField(body: unknown): string | null {
+  if (!body || typeof body !== "object") {
+    return null;
+  }
+  const record = body as Record<string, unknown>;
+  for (const key of ["field", "param", "parameter"]) {
+    if (typeof record[key] === "string") {
+      return record[key] as string;
+    }
+  }
+  const issues = record.errors ?? record.details ?? record.detail ?? (record.error as Record<string, unknown>)?.details;
+  if (!Array.isArray(issues) || !issues[0] || typeof issues[0] !== "object") {
+    return null;
+  }
+  const issue = issues[0] as Record<string, unknown>;
+  if (typeof issue.field === "string") {
+    return issue.field;
+  }
+  const location = issue.path ?? issue.loc;
+  if (Array.isArray(location)) {
+    const parts = location.filter((part) => part !== "body").map(String);
+    return parts.length > 0 ? parts.join(".") : null;
+  }
+  return typeof location === "string" ? location : null;
+}
+
+function describeCause(error: Error): string {
+  const cause = error.cause as { code?: unknown; message?: unknown } | undefined;
+  if (typeof cause?.code === "string") {
+    return cause.code;
+  }
+  return typeof cause?.message === "string" ? cause.message : error.message;
+}
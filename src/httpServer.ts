@@ -0,0 +1,231 @@
+import { randomUUID, timingSafeEqual } from "node:crypto";
+import { createServer as createHttpServer, type IncomingMessage, type Server, type ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { confineLocalPaths } from "./localPaths.js";
+import { createServer } from "./server.js";
+
+const MCP_PATH = "/mcp";
+const HEALTH_PATH = "/health";
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+const LOOPBACK_HOSTS = new Set(["127.0.0.1", "localhost", "::1"]);
+export const DEFAULT_SESSION_IDLE_MS = 30 * 60 * 1000;
+
+export interface HttpServerOptions {
+  host: string;
+  port: number;
+  /** Shared secret expected as `Authorization: Bearer <token>`. */
+  authToken?: string;
+  /** Sessions with no open request for this long are closed. */
+  sessionIdleMs: number;
+}
+
+interface Session {
+  server: McpServer;
+  transport: StreamableHTTPServerTransport;
+  lastActive: number;
+  /** Requests in flight, including open SSE streams. */
+  activeRequests: number;
+}
+
+interface HttpState {
+  sessions: Map<string, Session>;
+  /** Host headers accepted without a token (DNS rebinding protection); unset when a token is required. */
+  allowedHosts?: string[];
+}
+
+/**
+ * Serves the MCP tools over Streamable HTTP. Every client session gets its own
+ * McpServer instance; the Krea key and local stores are shared. Local paths in
+ * tool input are confined to `KREA_DATA_DIR`.
+ */
+export async function startHttpServer(options: HttpServerOptions): Promise<Server> {
+  if (!options.authToken && !LOOPBACK_HOSTS.has(options.host)) {
+    throw new Error("KREA_MCP_AUTH_TOKEN must be set when serving HTTP on a non-loopback host.");
+  }
+  confineLocalPaths();
+
+  const state: HttpState = { sessions: new Map() };
+
+  const httpServer = createHttpServer((req, res) => {
+    handleRequest(req, res, state, options).catch((error) => {
+      console.error(`HTTP request failed: ${error instanceof Error ? error.message : String(error)}`);
+      if (!res.headersSent) {
+        sendJson(res, 500, jsonRpcError("Internal server error"));
+      } else {
+        res.end();
+      }
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off("error", reject);
+      resolve();
+    });
+  });
+
+  const { port } = httpServer.address() as AddressInfo;
+  if (!options.authToken) {
+    // Without a token, a web page could reach the loopback server through a
+    // rebound DNS name; only accept loopback Host headers.
+    state.allowedHosts = [`localhost:${port}`, `127.0.0.1:${port}`, `[::1]:${port}`];
+  }
+
+  const sweep = setInterval(() => closeIdleSessions(state.sessions, options.sessionIdleMs), sweepInterval(options));
+  sweep.unref();
+  httpServer.on("close", () => clearInterval(sweep));
+
+  console.error(`Krea MCP server listening on http://${options.host}:${port}${MCP_PATH}`);
+  return httpServer;
+}
+
+function sweepInterval(options: HttpServerOptions): number {
+  return Math.min(Math.max(Math.floor(options.sessionIdleMs / 4), 1000), 60000);
+}
+
+function closeIdleSessions(sessions: Map<string, Session>, idleMs: number): void {
+  const now = Date.now();
+  for (const [id, session] of sessions) {
+    if (session.activeRequests === 0 && now - session.lastActive >= idleMs) {
+      sessions.delete(id);
+      session.server.close().catch((error) => {
+        console.error(`Failed to close idle session ${id}: ${error instanceof Error ? error.message : String(error)}`);
+      });
+    }
+  }
+}
+
+/** Marks the session busy until the response finishes or the client goes away. */
+function trackRequest(session: Session, res: ServerResponse): void {
+  session.activeRequests += 1;
+  session.lastActive = Date.now();
+  res.once("close", () => {
+    session.activeRequests -= 1;
+    session.lastActive = Date.now();
+  });
+}
+
+async function handleRequest(
+  req: IncomingMessage,
+  res: ServerResponse,
+  state: HttpState,
+  options: HttpServerOptions
+): Promise<void> {
+  const url = new URL(req.url ?? "/", "http://localhost");
+  const { sessions } = state;
+
+  if (url.pathname === HEALTH_PATH && req.method === "GET") {
+    sendJson(res, 200, { status: "ok", sessions: sessions.size });
+    return;
+  }
+
+  if (url.pathname !== MCP_PATH) {
+    sendJson(res, 404, { error: "Not found" });
+    return;
+  }
+
+  if (options.authToken && !isAuthorized(req, options.authToken)) {
+    res.setHeader("WWW-Authenticate", "Bearer");
+    sendJson(res, 401, jsonRpcError("Unauthorized"));
+    return;
+  }
+
+  const sessionId = readHeader(req, "mcp-session-id");
+  const existing = sessionId ? sessions.get(sessionId) : undefined;
+
+  if (req.method === "POST") {
+    let body: unknown;
+    try {
+      body = await readJsonBody(req);
+    } catch (error) {
+      sendJson(res, 400, jsonRpcError(`Invalid request body: ${(error as Error).message}`));
+      return;
+    }
+    if (existing) {
+      trackRequest(existing, res);
+      await existing.transport.handleRequest(req, res, body);
+      return;
+    }
+    if (sessionId || !isInitializeRequest(body)) {
+      sendJson(res, sessionId ? 404 : 400, jsonRpcError(sessionId ? "Unknown session" : "Missing session id"));
+      return;
+    }
+
+    const server = createServer();
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        sessions.set(id, session);
+      },
+      enableDnsRebindingProtection: state.allowedHosts !== undefined,
+      allowedHosts: state.allowedHosts
+    });
+    const session: Session = { server, transport, lastActive: Date.now(), activeRequests: 0 };
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        sessions.delete(transport.sessionId);
+      }
+    };
+
+    await server.connect(transport);
+    trackRequest(session, res);
+    await transport.handleRequest(req, res, body);
+    return;
+  }
+
+  if (req.method === "GET" || req.method === "DELETE") {
+    if (!existing) {
+      sendJson(res, sessionId ? 404 : 400, jsonRpcError(sessionId ? "Unknown session" : "Missing session id"));
+      return;
+    }
+    trackRequest(existing, res);
+    await existing.transport.handleRequest(req, res);
+    return;
+  }
+
+  res.setHeader("Allow", "GET, POST, DELETE");
+  sendJson(res, 405, jsonRpcError("Method not allowed"));
+}
+
+function isAuthorized(req: IncomingMessage, token: string): boolean {
+  const header = readHeader(req, "authorization") ?? "";
+  const match = /^Bearer\s+(.+)$/i.exec(header);
+  if (!match) {
+    return false;
+  }
+  const expected = Buffer.from(token);
+  const received = Buffer.from(match[1].trim());
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_BYTES) {
+      throw new Error(`Request body exceeds ${MAX_BODY_BYTES} bytes.`);
+    }
+    chunks.push(chunk as Buffer);
+  }
+  const text = Buffer.concat(chunks).toString("utf8");
+  return text.trim().length > 0 ? JSON.parse(text) : undefined;
+}
+
+function readHeader(req: IncomingMessage, name: string): string | undefined {
+  const value = req.headers[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+function jsonRpcError(message: string): Record<string, unknown> {
+  return { jsonrpc: "2.0", error: { code: -32000, message }, id: null };
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
@@ -0,0 +1,124 @@
+import { isRemoteUrl, readImageSource } from "./assets.js";
+import { invalidInput } from "./errors.js";
+
+// Enough for JPEGs with large EXIF or ICC segments before the frame header.
+const MAX_PROBE_BYTES = 512 * 1024;
+
+const JPEG_FRAME_MARKERS = new Set([0xc0, 0xc1, 0xc2, 0xc3, 0xc5, 0xc6, 0xc7, 0xc9, 0xca, 0xcb, 0xcd, 0xce, 0xcf]);
+
+export interface ImageSize {
+  width: number;
+  height: number;
+  format: "png" | "jpeg" | "webp";
+}
+
+/**
+ * Reads the pixel size of a PNG, JPEG or WebP image from its header. Remote
+ * images are streamed only until the header has been seen.
+ */
+export async function probeImageSize(source: string, signal?: AbortSignal): Promise<ImageSize> {
+  const header = isRemoteUrl(source) ? await fetchHeader(source, signal) : (await readImageSource(source)).data;
+  const size = parseImageSize(header);
+  if (!size) {
+    throw invalidInput(`Could not read the size of ${describeSource(source)}; only PNG, JPEG and WebP are supported.`);
+  }
+  return size;
+}
+
+/**
+ * Returns the size from the first bytes of an image, or undefined when the
+ * format is unknown or the bytes end before the size is known.
+ */
+export function parseImageSize(bytes: Uint8Array): ImageSize | undefined {
+  const data = Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (data.length >= 24 && data.readUInt32BE(0) === 0x89504e47 && data.toString("ascii", 12, 16) === "IHDR") {
+    return { width: data.readUInt32BE(16), height: data.readUInt32BE(20), format: "png" };
+  }
+  if (data.length >= 3 && data[0] === 0xff && data[1] === 0xd8) {
+    return parseJpegSize(data);
+  }
+  if (data.length >= 16 && data.toString("ascii", 0, 4) === "RIFF" && data.toString("ascii", 8, 12) === "WEBP") {
+    return parseWebpSize(data);
+  }
+  return undefined;
+}
+
+function parseJpegSize(data: Buffer): ImageSize | undefined {
+  let offset = 2;
+  while (offset + 4 <= data.length) {
+    if (data[offset] !== 0xff) {
+      return undefined;
+    }
+    const marker = data[offset + 1];
+    if (marker === 0xff) {
+      offset += 1;
+      continue;
+    }
+    // Standalone markers carry no length.
+    if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd9)) {
+      offset += 2;
+      continue;
+    }
+    if (JPEG_FRAME_MARKERS.has(marker)) {
+      if (offset + 9 > data.length) {
+        return undefined;
+      }
+      return { width: data.readUInt16BE(offset + 7), height: data.readUInt16BE(offset + 5), format: "jpeg" };
+    }
+    offset += 2 + data.readUInt16BE(offset + 2);
+  }
+  return undefined;
+}
+
+function parseWebpSize(data: Buffer): ImageSize | undefined {
+  const chunk = data.toString("ascii", 12, 16);
+  if (chunk === "VP8 " && data.length >= 30) {
+    return { width: data.readUInt16LE(26) & 0x3fff, height: data.readUInt16LE(28) & 0x3fff, format: "webp" };
+  }
+  if (chunk === "VP8L" && data.length >= 25) {
+    const bits = data.readUInt32LE(21);
+    return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1, format: "webp" };
+  }
+  if (chunk === "VP8X" && data.length >= 30) {
+    return { width: data.readUIntLE(24, 3) + 1, height: data.readUIntLE(27, 3) + 1, format: "webp" };
+  }
+  return undefined;
+}
+
+async function fetchHeader(url: string, signal?: AbortSignal): Promise<Buffer> {
+  const controller = new AbortController();
+  const response = await fetch(url, {
+    headers: { Range: `bytes=0-${MAX_PROBE_BYTES - 1}` },
+    signal: signal ? AbortSignal.any([signal, controller.signal]) : controller.signal
+  });
+  if (!response.ok) {
+    throw new Error(`Failed to read ${url}: HTTP ${response.status}`);
+  }
+  if (!response.body) {
+    return Buffer.alloc(0);
+  }
+
+  const chunks: Buffer[] = [];
+  let length = 0;
+  const reader = response.body.getReader();
+  try {
+    while (length < MAX_PROBE_BYTES) {
+      const { done, value } = await reader.read();
+      if (done) {
+        break;
+      }
+      chunks.push(Buffer.from(value));
+      length += value.length;
+      if (parseImageSize(Buffer.concat(chunks))) {
+        break;
+      }
+    }
+  } finally {
+    controller.abort();
+  }
+  return Buffer.concat(chunks);
+}
+
+function describeSource(source: string): string {
+  return source.startsWith("data:") ? "the data URI" : source;
+}
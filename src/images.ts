@@ -0,0 +1,117 @@
+import { mkdir, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { resolveLocalPath } from "./localPaths.js";
+
+export const DEFAULT_INLINE_IMAGE_MAX_BYTES = 1024 * 1024;
+
+const EXTENSIONS_BY_CONTENT_TYPE: Record<string, string> = {
+  "image/png": "png",
+  "image/jpeg": "jpg",
+  "image/jpg": "jpg",
+  "image/webp": "webp",
+  "image/gif": "gif",
+  "image/avif": "avif",
+  "image/tiff": "tiff",
+  "video/mp4": "mp4",
+  "video/webm": "webm",
+  "video/quicktime": "mov"
+};
+
+export interface DownloadedImage {
+  index: number;
+  url: string;
+  path: string;
+  content_type: string;
+  bytes: number;
+  inlined: boolean;
+}
+
+export interface DownloadFailure {
+  index: number;
+  url: string;
+  error: string;
+}
+
+export interface ImageContent {
+  type: "image";
+  data: string;
+  mimeType: string;
+}
+
+/**
+ * Saves each result URL as `<jobId>-<index>.<ext>` in outputDir and returns the
+ * files together with base64 content blocks for images under inlineMaxBytes.
+ * Videos are only saved. A URL that cannot be fetched or saved is reported in
+ * `failures` and does not stop the others.
+ */
+export async function downloadImages(
+  urls: string[],
+  options: { jobId: string; outputDir: string; inlineMaxBytes: number }
+): Promise<{ downloads: DownloadedImage[]; content: ImageContent[]; failures: DownloadFailure[] }> {
+  const downloads: DownloadedImage[] = [];
+  const content: ImageContent[] = [];
+  const failures: DownloadFailure[] = [];
+
+  let outputDir: string;
+  try {
+    outputDir = await resolveLocalPath(options.outputDir, "output_dir");
+    await mkdir(outputDir, { recursive: true });
+  } catch (error) {
+    const message = (error as Error).message;
+    return { downloads, content, failures: urls.map((url, index) => ({ index, url, error: message })) };
+  }
+
+  for (const [index, url] of urls.entries()) {
+    try {
+      const { bytes, contentType } = await fetchImage(url);
+      const extension = EXTENSIONS_BY_CONTENT_TYPE[contentType] ?? extensionFromUrl(url) ?? "bin";
+      const filePath = path.join(outputDir, `${sanitizeFileName(options.jobId)}-${index}.${extension}`);
+      await writeFile(filePath, bytes);
+
+      const inlined = contentType.startsWith("image/") && bytes.length <= options.inlineMaxBytes;
+      if (inlined) {
+        content.push({ type: "image", data: bytes.toString("base64"), mimeType: contentType });
+      }
+
+      downloads.push({
+        index,
+        url,
+        path: filePath,
+        content_type: contentType,
+        bytes: bytes.length,
+        inlined
+      });
+    } catch (error) {
+      failures.push({ index, url, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  return { downloads, content, failures };
+}
+
+export async function fetchImage(url: string): Promise<{ bytes: Buffer; contentType: string }> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to download ${url}: HTTP ${response.status}`);
+  }
+  return {
+    bytes: Buffer.from(await response.arrayBuffer()),
+    contentType: normalizeContentType(response.headers.get("content-type"))
+  };
+}
+
+function normalizeContentType(header: string | null): string {
+  if (!header) {
+    return "application/octet-stream";
+  }
+  return header.split(";")[0].trim().toLowerCase();
+}
+
+function extensionFromUrl(url: string): string | undefined {
+  const extension = path.extname(new URL(url).pathname).slice(1).toLowerCase();
+  return extension.length > 0 && extension.length <= 5 ? extension : undefined;
+}
+
+function sanitizeFileName(value: string): string {
+  return value.replace(/[^A-Za-z0-9._-]/g, "_");
+}
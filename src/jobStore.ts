@@ -0,0 +1,275 @@
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { homedir } from "node:os";
+import path from "node:path";
+import { isDeepStrictEqual } from "node:util";
+import { isTerminalStatus } from "./kreaClient.js";
+import { startOfUtcDay } from "./usage.js";
+
+const STORE_FILE_NAME = "jobs.json";
+const STORE_VERSION = 1;
+const DEFAULT_MAX_JOBS = 1000;
+
+export type JobKind = "generate" | "upscale" | "video" | "style";
+
+export interface JobStatusChange {
+  status: string;
+  at: string;
+}
+
+export interface JobRecord {
+  job_id: string;
+  kind: JobKind;
+  model: string;
+  mode: string | null;
+  endpoint: string;
+  payload_sent: Record<string, unknown>;
+  /** Estimated credits charged for the job at submission time. */
+  credits: number | null;
+  status: string;
+  status_history: JobStatusChange[];
+  image_urls: string[];
+  error: unknown;
+  created_at: string;
+  updated_at: string;
+  completed_at: string | null;
+}
+
+export interface JobFilter {
+  model?: string;
+  status?: string;
+  since?: string;
+  until?: string;
+  limit?: number;
+}
+
+interface StoreFile {
+  version: number;
+  jobs: JobRecord[];
+}
+
+export function defaultDataDir(): string {
+  return process.env.KREA_DATA_DIR ?? path.join(homedir(), ".krea-ai-mcp");
+}
+
+export type JobListener = (job: JobRecord) => void;
+
+export class JobStore {
+  private readonly filePath: string;
+  private readonly maxJobs: number;
+  private readonly finishedListeners = new Set<JobListener>();
+  private jobs: Map<string, JobRecord> | null = null;
+  private loading: Promise<Map<string, JobRecord>> | null = null;
+  private writeChain: Promise<void> = Promise.resolve();
+
+  /**
+   * `maxJobs` caps the registry: beyond it the oldest finished jobs are
+   * dropped, except ones from the current UTC day, which the daily budget
+   * still counts.
+   */
+  constructor(dataDir: string, maxJobs = DEFAULT_MAX_JOBS) {
+    this.filePath = path.join(dataDir, STORE_FILE_NAME);
+    this.maxJobs = maxJobs;
+  }
+
+  static fromEnv(): JobStore {
+    return new JobStore(defaultDataDir(), readMaxJobsEnv());
+  }
+
+  async recordCreated(record: {
+    job_id: string;
+    kind: JobKind;
+    model: string;
+    mode?: string;
+    endpoint: string;
+    payload_sent: Record<string, unknown>;
+    credits?: number;
+    status: string;
+  }): Promise<JobRecord> {
+    const jobs = await this.load();
+    const now = new Date().toISOString();
+    const entry: JobRecord = {
+      job_id: record.job_id,
+      kind: record.kind,
+      model: record.model,
+      mode: record.mode ?? null,
+      endpoint: record.endpoint,
+      payload_sent: record.payload_sent,
+      credits: record.credits ?? null,
+      status: record.status,
+      status_history: [{ status: record.status, at: now }],
+      image_urls: [],
+      error: null,
+      created_at: now,
+      updated_at: now,
+      completed_at: isTerminalStatus(record.status) ? now : null
+    };
+    jobs.set(entry.job_id, entry);
+    this.prune(jobs);
+    await this.persist();
+    return entry;
+  }
+
+  /**
+   * Calls listener whenever a recorded job reaches a terminal status. Returns
+   * a function that removes the listener.
+   */
+  onJobFinished(listener: JobListener): () => void {
+    this.finishedListeners.add(listener);
+    return () => {
+      this.finishedListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Applies a status observed from Krea to a known job. Jobs that were not
+   * created through this server are ignored, and an update that changes
+   * nothing is not written.
+   */
+  async recordStatus(
+    jobId: string,
+    update: { status: string; imageUrls: string[]; error: unknown }
+  ): Promise<JobRecord | undefined> {
+    const jobs = await this.load();
+    const entry = jobs.get(jobId);
+    if (!entry) {
+      return undefined;
+    }
+
+    const unchanged =
+      entry.status === update.status &&
+      (update.imageUrls.length === 0 || isDeepStrictEqual(entry.image_urls, update.imageUrls)) &&
+      (update.error === undefined || update.error === null || isDeepStrictEqual(entry.error, update.error));
+    if (unchanged) {
+      return entry;
+    }
+
+    const now = new Date().toISOString();
+    let finished = false;
+    if (entry.status !== update.status) {
+      entry.status = update.status;
+      entry.status_history.push({ status: update.status, at: now });
+      if (isTerminalStatus(update.status)) {
+        entry.completed_at = now;
+        finished = true;
+      }
+    }
+    if (update.imageUrls.length > 0) {
+      entry.image_urls = update.imageUrls;
+    }
+    if (update.error !== undefined && update.error !== null) {
+      entry.error = update.error;
+    }
+    entry.updated_at = now;
+
+    await this.persist();
+    if (finished) {
+      for (const listener of this.finishedListeners) {
+        listener(entry);
+      }
+    }
+    return entry;
+  }
+
+  async get(jobId: string): Promise<JobRecord | undefined> {
+    const jobs = await this.load();
+    return jobs.get(jobId);
+  }
+
+  async list(filter: JobFilter = {}): Promise<JobRecord[]> {
+    const jobs = await this.load();
+    const since = filter.since ? Date.parse(filter.since) : undefined;
+    const until = filter.until ? Date.parse(filter.until) : undefined;
+
+    const matches = [...jobs.values()].filter((job) => {
+      if (filter.model !== undefined && job.model !== filter.model) {
+        return false;
+      }
+      if (filter.status !== undefined && job.status !== filter.status) {
+        return false;
+      }
+      const createdAt = Date.parse(job.created_at);
+      if (since !== undefined && createdAt < since) {
+        return false;
+      }
+      if (until !== undefined && createdAt > until) {
+        return false;
+      }
+      return true;
+    });
+
+    matches.sort((a, b) => b.created_at.localeCompare(a.created_at));
+    return filter.limit !== undefined ? matches.slice(0, filter.limit) : matches;
+  }
+
+  async listPending(): Promise<JobRecord[]> {
+    const jobs = await this.load();
+    return [...jobs.values()].filter((job) => !isTerminalStatus(job.status));
+  }
+
+  private async load(): Promise<Map<string, JobRecord>> {
+    if (this.jobs) {
+      return this.jobs;
+    }
+    if (!this.loading) {
+      this.loading = this.readFromDisk().then((jobs) => {
+        this.jobs = jobs;
+        return jobs;
+      });
+    }
+    return this.loading;
+  }
+
+  private async readFromDisk(): Promise<Map<string, JobRecord>> {
+    let text: string;
+    try {
+      text = await readFile(this.filePath, "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return new Map();
+      }
+      throw error;
+    }
+
+    const parsed = JSON.parse(text) as Partial<StoreFile>;
+    const jobs = Array.isArray(parsed.jobs) ? parsed.jobs : [];
+    return new Map(jobs.map((job) => [job.job_id, job]));
+  }
+
+  private prune(jobs: Map<string, JobRecord>): void {
+    if (jobs.size <= this.maxJobs) {
+      return;
+    }
+    const today = startOfUtcDay().toISOString();
+    const prunable = [...jobs.values()]
+      .filter((job) => isTerminalStatus(job.status) && job.created_at < today)
+      .sort((a, b) => a.created_at.localeCompare(b.created_at));
+    for (const job of prunable.slice(0, jobs.size - this.maxJobs)) {
+      jobs.delete(job.job_id);
+    }
+  }
+
+  private persist(): Promise<void> {
+    const write = async () => {
+      const jobs = this.jobs ?? new Map<string, JobRecord>();
+      const body: StoreFile = { version: STORE_VERSION, jobs: [...jobs.values()] };
+      const tempPath = `${this.filePath}.tmp`;
+      await mkdir(path.dirname(this.filePath), { recursive: true });
+      await writeFile(tempPath, JSON.stringify(body, null, 2), "utf8");
+      await rename(tempPath, this.filePath);
+    };
+    this.writeChain = this.writeChain.then(write, write);
+    return this.writeChain;
+  }
+}
+
+function readMaxJobsEnv(): number | undefined {
+  const raw = process.env.KREA_JOB_HISTORY_LIMIT;
+  if (raw === undefined || raw.trim() === "") {
+    return undefined;
+  }
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < 1) {
+    throw new Error(`KREA_JOB_HISTORY_LIMIT must be a positive integer. Received "${raw}".`);
+  }
+  return value;
+}
@@ -1,4 +1,30 @@
+import { cassetteTransportFromEnv } from "./cassette.js";
+import { KreaToolError } from "./errors.js";
+
 const DEFAULT_BASE_URL = "https://api.krea.ai";
+const DEFAULT_MAX_RETRIES = 3;
+const DEFAULT_RETRY_BASE_DELAY_MS = 1000;
+const DEFAULT_RETRY_MAX_DELAY_MS = 30000;
+const DEFAULT_REQUEST_TIMEOUT_MS = 60000;
+
+// Connection errors raised before any bytes reached Krea, so even job creation
+// can be retried without risking a duplicate job.
+const PRE_SEND_ERROR_CODES = new Set([
+  "ECONNREFUSED",
+  "ENOTFOUND",
+  "EAI_AGAIN",
+  "UND_ERR_CONNECT_TIMEOUT"
+]);
+
+export interface RetryOptions {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  requestTimeoutMs: number;
+}
+
+/** Sends one HTTP request; `fetch` unless a cassette is recording or replaying. */
+export type HttpTransport = (url: string, init: RequestInit) => Promise<Response>;
 
 export class KreaApiError extends Error {
   readonly status: number;
@@ -12,22 +38,66 @@ export class KreaApiError extends Error {
   }
 }
 
+export class KreaTimeoutError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "KreaTimeoutError";
+  }
+}
+
 export class KreaClient {
   private readonly baseUrl: string;
-  private readonly apiKey: string;
+  private readonly apiKey: string | undefined;
+  private readonly retry: RetryOptions;
+  private readonly transport: HttpTransport;
+  private retries = 0;
 
-  constructor(apiKey: string, baseUrl = DEFAULT_BASE_URL) {
+  constructor(
+    apiKey: string | undefined,
+    baseUrl = DEFAULT_BASE_URL,
+    retry: Partial<RetryOptions> = {},
+    transport: HttpTransport = (url, init) => fetch(url, init)
+  ) {
     this.apiKey = apiKey;
+    this.transport = transport;
     this.baseUrl = baseUrl.endsWith("/") ? baseUrl.slice(0, -1) : baseUrl;
+    this.retry = {
+      maxRetries: retry.maxRetries ?? DEFAULT_MAX_RETRIES,
+      baseDelayMs: retry.baseDelayMs ?? DEFAULT_RETRY_BASE_DELAY_MS,
+      maxDelayMs: retry.maxDelayMs ?? DEFAULT_RETRY_MAX_DELAY_MS,
+      requestTimeoutMs: retry.requestTimeoutMs ?? DEFAULT_REQUEST_TIMEOUT_MS
+    };
   }
 
+  /**
+   * Builds a client from the environment. A missing API key is only reported
+   * when a request is sent, so dry runs work without one; with `KREA_REPLAY`
+   * set no request leaves the process and the key is not needed at all.
+   */
   static fromEnv(): KreaClient {
-    const apiKey = process.env.KREA_API_KEY;
-    if (!apiKey) {
-      throw new Error("KREA_API_KEY is not set.");
-    }
+    const apiKey = process.env.KREA_API_KEY || (process.env.KREA_REPLAY ? "replay" : undefined);
     const baseUrl = process.env.KREA_API_BASE_URL ?? DEFAULT_BASE_URL;
-    return new KreaClient(apiKey, baseUrl);
+    return new KreaClient(
+      apiKey,
+      baseUrl,
+      {
+        maxRetries: readIntEnv("KREA_MAX_RETRIES"),
+        baseDelayMs: readIntEnv("KREA_RETRY_BASE_DELAY_MS"),
+        maxDelayMs: readIntEnv("KREA_RETRY_MAX_DELAY_MS"),
+        requestTimeoutMs: readIntEnv("KREA_REQUEST_TIMEOUT_MS")
+      },
+      cassetteTransportFromEnv(apiKey ?? "")
+    );
+  }
+
+  /** False when requests would fail for lack of an API key. */
+  get hasApiKey(): boolean {
+    return Boolean(this.apiKey);
+  }
+
+  /** Number of retried requests made by this client so far. */
+  get retryCount(): number {
+    return this.retries;
   }
 
   async generateImage(endpoint: string, payload: Record<string, unknown>): Promise<unknown> {
@@ -37,36 +107,157 @@ export class KreaClient {
     });
   }
 
-  async getJob(jobId: string): Promise<unknown> {
-    return this.request(`/jobs/${encodeURIComponent(jobId)}`, { method: "GET" });
+  async getJob(jobId: string, signal?: AbortSignal): Promise<unknown> {
+    return this.request(`/jobs/${encodeURIComponent(jobId)}`, { method: "GET", signal });
+  }
+
+  async cancelJob(jobId: string): Promise<unknown> {
+    return this.request(`/jobs/${encodeURIComponent(jobId)}`, { method: "DELETE" });
+  }
+
+  async uploadAsset(data: Uint8Array, fileName: string, contentType: string): Promise<unknown> {
+    const form = new FormData();
+    form.append("file", new Blob([new Uint8Array(data)], { type: contentType }), fileName);
+    return this.request("/assets", {
+      method: "POST",
+      body: form
+    });
+  }
+
+  async listStyles(query: { limit?: number; cursor?: string } = {}, signal?: AbortSignal): Promise<unknown> {
+    const params = new URLSearchParams();
+    if (query.limit !== undefined) {
+      params.set("limit", String(query.limit));
+    }
+    if (query.cursor !== undefined) {
+      params.set("cursor", query.cursor);
+    }
+    const search = params.toString();
+    return this.request(`/styles${search ? `?${search}` : ""}`, { method: "GET", signal });
+  }
+
+  async trainStyle(payload: Record<string, unknown>): Promise<unknown> {
+    return this.request("/styles/train", {
+      method: "POST",
+      body: JSON.stringify(payload)
+    });
+  }
+
+  async deleteStyle(styleId: string): Promise<unknown> {
+    return this.request(`/styles/${encodeURIComponent(styleId)}`, { method: "DELETE" });
   }
 
+  /**
+   * Sends a request, retrying rate limits, 5xx responses, timeouts and network
+   * errors with exponential backoff. Only GET requests are retried on every
+   * failure; other methods are retried only when Krea cannot have accepted them.
+   */
   private async request(path: string, init: RequestInit): Promise<unknown> {
-    const response = await fetch(`${this.baseUrl}${path}`, {
+    if (!this.apiKey) {
+      throw new KreaToolError({ code: "auth_failed", message: "KREA_API_KEY is not set.", retryable: false });
+    }
+    const idempotent = (init.method ?? "GET").toUpperCase() === "GET";
+
+    for (let attempt = 0; ; attempt += 1) {
+      let response: Response;
+      try {
+        response = await this.send(path, init);
+      } catch (error) {
+        if (init.signal?.aborted) {
+          throw error;
+        }
+        const timedOut = error instanceof Error && error.name === "TimeoutError";
+        const retryable = idempotent || (!timedOut && PRE_SEND_ERROR_CODES.has(readErrorCode(error) ?? ""));
+        if (!retryable || attempt >= this.retry.maxRetries) {
+          throw timedOut
+            ? new KreaTimeoutError(`Krea API request ${path} timed out after ${this.retry.requestTimeoutMs}ms.`)
+            : error;
+        }
+        await this.backoff(attempt, undefined, init.signal);
+        continue;
+      }
+
+      const retryable = response.status === 429 || (idempotent && response.status >= 500);
+      if (retryable && attempt < this.retry.maxRetries) {
+        const retryAfterMs = parseRetryAfter(response.headers.get("retry-after"));
+        if (retryAfterMs === undefined || retryAfterMs <= this.retry.maxDelayMs) {
+          await response.body?.cancel();
+          await this.backoff(attempt, retryAfterMs, init.signal);
+          continue;
+        }
+      }
+
+      return parseResponse(response);
+    }
+  }
+
+  private async send(path: string, init: RequestInit): Promise<Response> {
+    const timeoutSignal = AbortSignal.timeout(this.retry.requestTimeoutMs);
+    return this.transport(`${this.baseUrl}${path}`, {
       ...init,
+      signal: init.signal ? AbortSignal.any([init.signal, timeoutSignal]) : timeoutSignal,
       headers: {
         Authorization: `Bearer ${this.apiKey}`,
-        "Content-Type": "application/json",
+        // Multipart bodies need fetch to set the boundary itself.
+        ...(init.body instanceof FormData ? {} : { "Content-Type": "application/json" }),
         ...(init.headers ?? {})
       }
     });
+  }
 
-    const bodyText = await response.text();
-    let jsonBody: unknown = undefined;
-    if (bodyText.trim().length > 0) {
-      try {
-        jsonBody = JSON.parse(bodyText);
-      } catch {
-        jsonBody = bodyText;
-      }
-    }
+  private async backoff(attempt: number, retryAfterMs: number | undefined, signal?: AbortSignal | null): Promise<void> {
+    this.retries += 1;
+    const exponential = Math.min(this.retry.maxDelayMs, this.retry.baseDelayMs * 2 ** attempt);
+    const jittered = exponential / 2 + Math.random() * (exponential / 2);
+    await sleep(Math.max(retryAfterMs ?? 0, jittered), signal ?? undefined);
+  }
+}
 
-    if (!response.ok) {
-      throw new KreaApiError(`Krea API error ${response.status}`, response.status, stringifyUnknown(jsonBody));
+async function parseResponse(response: Response): Promise<unknown> {
+  const bodyText = await response.text();
+  let jsonBody: unknown = undefined;
+  if (bodyText.trim().length > 0) {
+    try {
+      jsonBody = JSON.parse(bodyText);
+    } catch {
+      jsonBody = bodyText;
     }
+  }
 
-    return jsonBody;
+  if (!response.ok) {
+    throw new KreaApiError(`Krea API error ${response.status}`, response.status, stringifyUnknown(jsonBody));
   }
+
+  return jsonBody;
+}
+
+function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) {
+    return undefined;
+  }
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function readErrorCode(error: unknown): string | undefined {
+  const cause = error instanceof Error ? (error.cause as { code?: unknown } | undefined) : undefined;
+  return typeof cause?.code === "string" ? cause.code : undefined;
+}
+
+function readIntEnv(name: string): number | undefined {
+  const value = process.env[name];
+  if (value === undefined || value.trim() === "") {
+    return undefined;
+  }
+  const parsed = Number.parseInt(value, 10);
+  if (!Number.isFinite(parsed) || parsed < 0) {
+    throw new Error(`${name} must be a non-negative integer.`);
+  }
+  return parsed;
 }
 
 export function normalizeStatus(status: unknown): string {
@@ -80,8 +271,31 @@ export function isTerminalStatus(status: string): boolean {
   return status === "completed" || status === "failed" || status === "cancelled";
 }
 
-export function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+export function readProgressPercent(job: unknown): number | undefined {
+  if (!job || typeof job !== "object") {
+    return undefined;
+  }
+  const record = job as Record<string, unknown>;
+  const value = record.progress ?? record.percentage ?? record.percent;
+  return typeof value === "number" && Number.isFinite(value) ? value : undefined;
 }
 
 export function extractHttpUrls(value: unknown): string[] {
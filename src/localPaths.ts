@@ -0,0 +1,59 @@
+import { realpath } from "node:fs/promises";
+import path from "node:path";
+import { KreaToolError } from "./errors.js";
+import { defaultDataDir } from "./jobStore.js";
+
+let confined = false;
+
+/**
+ * Restricts the local paths tools read and write to `KREA_DATA_DIR`. Used in
+ * shared HTTP mode, where the caller does not own the host's file system.
+ */
+export function confineLocalPaths(): void {
+  confined = true;
+}
+
+/**
+ * Resolves a local path taken from tool input. When paths are confined,
+ * relative paths are resolved against `KREA_DATA_DIR` and anything that ends
+ * up outside it, including through a symlink, is rejected.
+ */
+export async function resolveLocalPath(value: string, field: string | null = null): Promise<string> {
+  if (!confined) {
+    return path.resolve(value);
+  }
+
+  const root = path.resolve(defaultDataDir());
+  const resolved = path.resolve(root, value);
+  const [realRoot, realTarget] = await Promise.all([realpathOfExisting(root), realpathOfExisting(resolved)]);
+  const relative = path.relative(realRoot, realTarget);
+  if (relative === ".." || relative.startsWith(`..${path.sep}`) || path.isAbsolute(relative)) {
+    throw new KreaToolError({
+      code: "validation_failed",
+      message: `${value} is outside KREA_DATA_DIR (${root}); local paths are confined to it over HTTP.`,
+      retryable: false,
+      suggestion: "Use a path inside KREA_DATA_DIR, or a relative path, which is resolved against it.",
+      field
+    });
+  }
+  return resolved;
+}
+
+/** Resolves symlinks in the part of the path that exists; the rest is kept as given. */
+async function realpathOfExisting(target: string): Promise<string> {
+  const missing: string[] = [];
+  let current = target;
+  for (;;) {
+    try {
+      return path.join(await realpath(current), ...missing);
+    } catch (error) {
+      const code = (error as NodeJS.ErrnoException).code;
+      const parent = path.dirname(current);
+      if ((code !== "ENOENT" && code !== "ENOTDIR") || parent === current) {
+        return target;
+      }
+      missing.unshift(path.basename(current));
+      current = parent;
+    }
+  }
+}
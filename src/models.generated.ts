@@ -0,0 +1,5 @@
+// Generated by `npm run generate:models` from Krea's OpenAPI spec. Do not edit by hand;
+// hand-written entries in models.ts override these by endpoint.
+import type { ModelDefinition } from "./models.js";
+
+export const GENERATED_IMAGE_MODELS: Record<string, ModelDefinition> = {};
@@ -1,102 +1,196 @@
 export type RequiredField = "prompt" | "width" | "height" | "referenceImages" | "imageUrl";
 
+/** Optional `krea_generate_image` inputs that a model may accept. */
+export const GENERATE_PARAMETERS = [
+  "width",
+  "height",
+  "aspect_ratio",
+  "seed",
+  "batch_size",
+  "guidance_scale",
+  "num_inference_steps",
+  "negative_prompt",
+  "style",
+  "reference_image",
+  "reference_images",
+  "image_url",
+  "sync_mode"
+] as const;
+
+export type GenerateParameter = (typeof GENERATE_PARAMETERS)[number];
+
+export interface ParameterSpec {
+  /** Field name in the Krea request body. */
+  wireName: string;
+  min?: number;
+  max?: number;
+  /** Send the value wrapped in a single-element array. */
+  asArray?: boolean;
+  /** Step that dimensions resolved from an aspect ratio are rounded to. */
+  multipleOf?: number;
+  /** Accepted values of an enumerated field, such as a model's aspect ratios. */
+  values?: readonly string[];
+}
+
+export type ParameterMatrix = Partial<Record<GenerateParameter, ParameterSpec>>;
+
 export interface ModelDefinition {
   title: string;
   endpoint: string;
   requiredFields: RequiredField[];
+  parameters: ParameterMatrix;
+  /** Exact `WIDTHxHEIGHT` sizes the model accepts, when it does not take free dimensions. */
+  allowedSizes?: readonly string[];
   fixedPayload?: Record<string, unknown>;
   defaultWidth?: number;
   defaultHeight?: number;
   notes?: string;
 }
 
+const DIMENSIONS = {
+  width: { wireName: "width", min: 256, max: 4096 },
+  height: { wireName: "height", min: 256, max: 4096 }
+} as const satisfies ParameterMatrix;
+
+const FLUX_DIMENSIONS = {
+  width: { wireName: "width", min: 256, max: 2368, multipleOf: 32 },
+  height: { wireName: "height", min: 256, max: 2368, multipleOf: 32 }
+} as const satisfies ParameterMatrix;
+
+const SEED = {
+  seed: { wireName: "seed", min: 0 }
+} as const satisfies ParameterMatrix;
+
+const BATCH = {
+  batch_size: { wireName: "batchSize", min: 1, max: 8 }
+} as const satisfies ParameterMatrix;
+
+const FLUX_SAMPLING = {
+  guidance_scale: { wireName: "guidance_scale_flux", min: 0, max: 100 },
+  num_inference_steps: { wireName: "steps", min: 1, max: 100 }
+} as const satisfies ParameterMatrix;
+
+const STYLES = {
+  style: { wireName: "styles" },
+  reference_image: { wireName: "styleImages", asArray: true }
+} as const satisfies ParameterMatrix;
+
+const IMAGE_INPUT = {
+  image_url: { wireName: "imageUrl" }
+} as const satisfies ParameterMatrix;
+
+const REFERENCE_IMAGES = {
+  reference_images: { wireName: "referenceImages" }
+} as const satisfies ParameterMatrix;
+
+const FLUX_KONTEXT_DEV = {
+  title: "BFL Flux 1 Kontext Dev",
+  endpoint: "/generate/image/bfl/flux-1-kontext-dev",
+  requiredFields: ["prompt"],
+  parameters: { ...FLUX_DIMENSIONS, ...SEED, ...BATCH, ...FLUX_SAMPLING, ...STYLES, ...IMAGE_INPUT },
+  notes: "Text-to-image, or edits image_url from the prompt."
+} as const satisfies ModelDefinition;
+
 export const KREA_IMAGE_MODELS = {
   flux_1_dev: {
     title: "BFL Flux 1 Dev",
     endpoint: "/generate/image/bfl/flux-1-dev",
     requiredFields: ["prompt"],
+    parameters: { ...FLUX_DIMENSIONS, ...SEED, ...BATCH, ...FLUX_SAMPLING, ...STYLES, ...IMAGE_INPUT },
     notes: "General-purpose text-to-image model."
   },
-  flux_kontext_max: {
-    title: "BFL Flux 1 Kontext Dev",
-    endpoint: "/generate/image/bfl/flux-1-kontext-dev",
-    requiredFields: ["prompt"],
-    notes: "Uses the current Kontext endpoint from Krea OpenAPI."
-  },
+  flux_kontext_dev: FLUX_KONTEXT_DEV,
+  // Deprecated key, kept so existing calls and presets still work.
+  flux_kontext_max: { ...FLUX_KONTEXT_DEV, notes: "Deprecated alias of flux_kontext_dev." },
   nano_banana_pro: {
     title: "Google Nano Banana Pro",
     endpoint: "/generate/image/google/nano-banana-pro",
-    requiredFields: ["prompt"]
+    requiredFields: ["prompt"],
+    parameters: { ...DIMENSIONS, ...SEED, ...BATCH, ...REFERENCE_IMAGES }
   },
   nano_banana: {
     title: "Google Nano Banana",
     endpoint: "/generate/image/google/nano-banana",
-    requiredFields: ["prompt"]
+    requiredFields: ["prompt"],
+    parameters: { ...DIMENSIONS, ...SEED, ...BATCH, ...REFERENCE_IMAGES }
   },
   flux_1_1_pro: {
     title: "BFL Flux 1.1 Pro",
     endpoint: "/generate/image/bfl/flux-1.1-pro",
     requiredFields: ["prompt", "width", "height"],
+    parameters: { ...FLUX_DIMENSIONS, ...SEED, ...BATCH, ...FLUX_SAMPLING },
     defaultWidth: 1024,
     defaultHeight: 1024
   },
   flux_1_1_pro_ultra: {
     title: "BFL Flux 1.1 Pro Ultra",
     endpoint: "/generate/image/bfl/flux-1.1-pro-ultra",
-    requiredFields: ["prompt"]
+    requiredFields: ["prompt"],
+    parameters: { ...DIMENSIONS, ...SEED, ...BATCH }
   },
   ideogram_2a: {
     title: "Ideogram 2 Turbo",
     endpoint: "/generate/image/ideogram/ideogram-2-turbo",
-    requiredFields: ["prompt"]
+    requiredFields: ["prompt"],
+    parameters: { ...DIMENSIONS, ...SEED, ...BATCH }
   },
   ideogram_3: {
     title: "Ideogram 3",
     endpoint: "/generate/image/ideogram/ideogram-3",
     requiredFields: ["prompt"],
+    parameters: { ...DIMENSIONS, ...SEED, ...BATCH, ...STYLES },
     notes: "Supports optional style and referenceImage."
   },
   imagen_3: {
     title: "Google Imagen 3",
     endpoint: "/generate/image/google/imagen-3",
-    requiredFields: ["prompt"]
+    requiredFields: ["prompt"],
+    parameters: { ...DIMENSIONS, ...SEED, ...BATCH }
   },
   imagen_4: {
     title: "Google Imagen 4",
     endpoint: "/generate/image/google/imagen-4",
-    requiredFields: ["prompt"]
+    requiredFields: ["prompt"],
+    parameters: { ...DIMENSIONS, ...SEED, ...BATCH }
   },
   imagen_4_fast: {
     title: "Google Imagen 4 Fast",
     endpoint: "/generate/image/google/imagen-4-fast",
-    requiredFields: ["prompt"]
+    requiredFields: ["prompt"],
+    parameters: { ...DIMENSIONS, ...SEED, ...BATCH }
   },
   imagen_4_ultra: {
     title: "Google Imagen 4 Ultra",
     endpoint: "/generate/image/google/imagen-4-ultra",
-    requiredFields: ["prompt"]
+    requiredFields: ["prompt"],
+    parameters: { ...DIMENSIONS, ...SEED, ...BATCH }
   },
   runway_gen_4_image: {
     title: "Runway Gen-4 Image",
     endpoint: "/generate/image/runway/gen-4",
     requiredFields: ["prompt", "referenceImages"],
+    parameters: { ...DIMENSIONS, ...SEED, ...BATCH, ...REFERENCE_IMAGES },
     notes: "Requires one or more reference image URLs."
   },
   chatgpt_image_1: {
     title: "OpenAI GPT Image",
     endpoint: "/generate/image/openai/gpt-image",
-    requiredFields: ["prompt"]
+    requiredFields: ["prompt"],
+    parameters: { ...DIMENSIONS, ...BATCH, ...REFERENCE_IMAGES },
+    allowedSizes: ["1024x1024", "1536x1024", "1024x1536"]
   },
   seedream_3: {
     title: "Bytedance Seedream 3",
     endpoint: "/generate/image/bytedance/seedream-3",
     requiredFields: ["prompt"],
+    parameters: { ...DIMENSIONS, ...SEED, ...BATCH },
     fixedPayload: { model: "seedream-3" }
   },
   seedream_4: {
     title: "Bytedance Seedream 4",
     endpoint: "/generate/image/bytedance/seedream-4",
     requiredFields: ["prompt", "width", "height"],
+    parameters: { ...DIMENSIONS, ...SEED, ...BATCH, ...REFERENCE_IMAGES },
     defaultWidth: 1024,
     defaultHeight: 1024
   },
@@ -104,27 +198,209 @@ export const KREA_IMAGE_MODELS = {
     title: "Bytedance Seededit 3",
     endpoint: "/generate/image/bytedance/seededit",
     requiredFields: ["prompt", "imageUrl"],
+    parameters: { ...DIMENSIONS, ...SEED, ...BATCH, ...IMAGE_INPUT },
     notes: "Image-to-image endpoint that requires image_url."
   },
   qwen_image: {
     title: "Qwen Image",
     endpoint: "/generate/image/qwen/2512",
-    requiredFields: ["prompt"]
+    requiredFields: ["prompt"],
+    parameters: {
+      ...DIMENSIONS,
+      ...SEED,
+      ...BATCH,
+      guidance_scale: { wireName: "cfg_scale", min: 0, max: 20 },
+      num_inference_steps: { wireName: "num_inference_steps", min: 1, max: 100 },
+      negative_prompt: { wireName: "negative_prompt" }
+    }
   },
   zimage: {
     title: "ZAI ZImage",
     endpoint: "/generate/image/z-image/z-image",
     requiredFields: ["prompt", "width", "height"],
+    parameters: { ...DIMENSIONS, ...SEED, ...BATCH, ...FLUX_SAMPLING },
     defaultWidth: 1024,
     defaultHeight: 1024
   }
 } as const satisfies Record<string, ModelDefinition>;
 
+export type VideoRequiredField = "prompt" | "startImage";
+
+/** Optional `krea_generate_video` inputs that a video model may accept. */
+export const VIDEO_PARAMETERS = [
+  "duration",
+  "aspect_ratio",
+  "resolution",
+  "seed",
+  "negative_prompt",
+  "start_image",
+  "end_image",
+  "generate_audio"
+] as const;
+
+export type VideoParameter = (typeof VIDEO_PARAMETERS)[number];
+
+export type VideoParameterMatrix = Partial<Record<VideoParameter, ParameterSpec>>;
+
+export interface VideoModelDefinition {
+  title: string;
+  endpoint: string;
+  requiredFields: VideoRequiredField[];
+  parameters: VideoParameterMatrix;
+  /** Clip lengths in seconds the model accepts; the first is its default. */
+  durations: readonly number[];
+  notes?: string;
+}
+
+export const KREA_VIDEO_MODELS = {
+  kling_2_1_master: {
+    title: "Kling 2.1 Master",
+    endpoint: "/generate/video/kling/kling-2.1-master",
+    requiredFields: ["prompt"],
+    parameters: {
+      duration: { wireName: "duration" },
+      aspect_ratio: { wireName: "aspectRatio", values: ["16:9", "9:16", "1:1"] },
+      negative_prompt: { wireName: "negativePrompt" },
+      start_image: { wireName: "startImage" }
+    },
+    durations: [5, 10],
+    notes: "Text-to-video, or image-to-video with start_image."
+  },
+  kling_2_1_pro: {
+    title: "Kling 2.1 Pro",
+    endpoint: "/generate/video/kling/kling-2.1-pro",
+    requiredFields: ["prompt", "startImage"],
+    parameters: {
+      duration: { wireName: "duration" },
+      negative_prompt: { wireName: "negativePrompt" },
+      start_image: { wireName: "startImage" },
+      end_image: { wireName: "endImage" }
+    },
+    durations: [5, 10],
+    notes: "Image-to-video; end_image sets the last frame."
+  },
+  veo_3: {
+    title: "Google Veo 3",
+    endpoint: "/generate/video/google/veo-3",
+    requiredFields: ["prompt"],
+    parameters: {
+      duration: { wireName: "duration" },
+      aspect_ratio: { wireName: "aspectRatio", values: ["16:9", "9:16"] },
+      resolution: { wireName: "resolution", values: ["720p", "1080p"] },
+      seed: { wireName: "seed", min: 0 },
+      negative_prompt: { wireName: "negativePrompt" },
+      start_image: { wireName: "startImage" },
+      generate_audio: { wireName: "generateAudio" }
+    },
+    durations: [8]
+  },
+  hailuo_02: {
+    title: "MiniMax Hailuo 02",
+    endpoint: "/generate/video/minimax/hailuo-02",
+    requiredFields: ["prompt"],
+    parameters: {
+      duration: { wireName: "duration" },
+      resolution: { wireName: "resolution", values: ["768p", "1080p"] },
+      start_image: { wireName: "startImage" },
+      end_image: { wireName: "endImage" }
+    },
+    durations: [6, 10]
+  },
+  runway_gen_4_turbo: {
+    title: "Runway Gen-4 Turbo",
+    endpoint: "/generate/video/runway/gen-4-turbo",
+    requiredFields: ["prompt", "startImage"],
+    parameters: {
+      duration: { wireName: "duration" },
+      aspect_ratio: { wireName: "aspectRatio", values: ["16:9", "9:16", "1:1", "4:3", "3:4", "21:9"] },
+      seed: { wireName: "seed", min: 0 },
+      start_image: { wireName: "startImage" }
+    },
+    durations: [5, 10],
+    notes: "Image-to-video only."
+  },
+  wan_2_2: {
+    title: "Wan 2.2",
+    endpoint: "/generate/video/wan/wan-2.2",
+    requiredFields: ["prompt"],
+    parameters: {
+      duration: { wireName: "duration" },
+      aspect_ratio: { wireName: "aspectRatio", values: ["16:9", "9:16", "1:1"] },
+      resolution: { wireName: "resolution", values: ["480p", "720p"] },
+      seed: { wireName: "seed", min: 0 },
+      negative_prompt: { wireName: "negativePrompt" },
+      start_image: { wireName: "startImage" },
+      end_image: { wireName: "endImage" }
+    },
+    durations: [5]
+  }
+} as const satisfies Record<string, VideoModelDefinition>;
+
+export const VIDEO_MODEL_KEYS = Object.keys(KREA_VIDEO_MODELS) as [
+  keyof typeof KREA_VIDEO_MODELS,
+  ...(keyof typeof KREA_VIDEO_MODELS)[]
+];
+
+export type VideoModelKey = keyof typeof KREA_VIDEO_MODELS;
+
 export const MODEL_KEYS = Object.keys(KREA_IMAGE_MODELS) as [keyof typeof KREA_IMAGE_MODELS, ...(keyof typeof KREA_IMAGE_MODELS)[]];
 
 export type ModelKey = keyof typeof KREA_IMAGE_MODELS;
 
-export function describeRequiredFields(requiredFields: RequiredField[]): string {
+/**
+ * Merges model catalogs in increasing priority. A catalog replaces entries of
+ * earlier catalogs with the same key or the same endpoint, so hand-written
+ * entries can override generated ones. Keys within one catalog may share an
+ * endpoint, e.g. a deprecated alias.
+ */
+export function mergeModelCatalogs(
+  ...catalogs: Record<string, ModelDefinition>[]
+): Record<string, ModelDefinition> {
+  const merged: Record<string, ModelDefinition> = {};
+  for (const catalog of catalogs) {
+    const endpoints = new Set(Object.values(catalog).map((definition) => definition.endpoint));
+    for (const [key, existing] of Object.entries(merged)) {
+      if (endpoints.has(existing.endpoint)) {
+        delete merged[key];
+      }
+    }
+    Object.assign(merged, catalog);
+  }
+  return merged;
+}
+
+export interface ParameterDescription {
+  wire_name: string;
+  min: number | null;
+  max: number | null;
+  as_array: boolean;
+  multiple_of: number | null;
+  values: string[] | null;
+}
+
+export function describeParameters(
+  parameters: ParameterMatrix | VideoParameterMatrix
+): Record<string, ParameterDescription> {
+  const described: Record<string, ParameterDescription> = {};
+  const specs: Partial<Record<string, ParameterSpec>> = parameters;
+  for (const name of [...GENERATE_PARAMETERS, ...VIDEO_PARAMETERS]) {
+    const spec = specs[name];
+    if (!spec || described[name]) {
+      continue;
+    }
+    described[name] = {
+      wire_name: spec.wireName,
+      min: spec.min ?? null,
+      max: spec.max ?? null,
+      as_array: spec.asArray ?? false,
+      multiple_of: spec.multipleOf ?? null,
+      values: spec.values ? [...spec.values] : null
+    };
+  }
+  return described;
+}
+
+export function describeRequiredFields(requiredFields: readonly (RequiredField | VideoRequiredField)[]): string {
   if (requiredFields.length === 0) {
     return "none";
   }
@@ -0,0 +1,172 @@
+import { readFileSync } from "node:fs";
+import type { GenerateParameter, ModelDefinition, ParameterMatrix, RequiredField } from "./models.js";
+
+const IMAGE_PATH_PREFIX = "/generate/image/";
+
+// Krea body fields that map onto the tool's generate parameters.
+const PARAMETERS_BY_WIRE_NAME: Record<string, GenerateParameter> = {
+  width: "width",
+  height: "height",
+  aspectRatio: "aspect_ratio",
+  aspect_ratio: "aspect_ratio",
+  seed: "seed",
+  batchSize: "batch_size",
+  guidance_scale_flux: "guidance_scale",
+  guidance_scale: "guidance_scale",
+  cfg_scale: "guidance_scale",
+  steps: "num_inference_steps",
+  num_inference_steps: "num_inference_steps",
+  negative_prompt: "negative_prompt",
+  negativePrompt: "negative_prompt",
+  styles: "style",
+  styleImages: "reference_image",
+  referenceImages: "reference_images",
+  imageUrl: "image_url",
+  image_url: "image_url"
+};
+
+const REQUIRED_FIELDS_BY_WIRE_NAME: Record<string, RequiredField> = {
+  prompt: "prompt",
+  width: "width",
+  height: "height",
+  referenceImages: "referenceImages",
+  imageUrl: "imageUrl",
+  image_url: "imageUrl"
+};
+
+type JsonSchema = {
+  $ref?: string;
+  type?: string | string[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  minimum?: number;
+  maximum?: number;
+  multipleOf?: number;
+  enum?: unknown[];
+  default?: unknown;
+  allOf?: JsonSchema[];
+};
+
+type OpenApiSpec = {
+  paths?: Record<string, Record<string, OpenApiOperation>>;
+  components?: { schemas?: Record<string, JsonSchema> };
+};
+
+type OpenApiOperation = {
+  summary?: string;
+  description?: string;
+  requestBody?: { content?: Record<string, { schema?: JsonSchema }> };
+};
+
+/**
+ * Builds model definitions for every `POST /generate/image/*` operation in a
+ * Krea OpenAPI document, keyed by a snake_case name derived from the path.
+ */
+export function modelsFromOpenApi(spec: unknown): Record<string, ModelDefinition> {
+  const document = spec as OpenApiSpec;
+  const models: Record<string, ModelDefinition> = {};
+
+  for (const [endpoint, operations] of Object.entries(document.paths ?? {})) {
+    const operation = operations.post;
+    if (!endpoint.startsWith(IMAGE_PATH_PREFIX) || !operation) {
+      continue;
+    }
+
+    const schema = resolveSchema(document, operation.requestBody?.content?.["application/json"]?.schema);
+    const properties = schema.properties ?? {};
+    const required = new Set(schema.required ?? []);
+
+    const requiredFields: RequiredField[] = [];
+    for (const name of required) {
+      const field = REQUIRED_FIELDS_BY_WIRE_NAME[name];
+      if (field && !requiredFields.includes(field)) {
+        requiredFields.push(field);
+      }
+    }
+    if (!requiredFields.includes("prompt") && "prompt" in properties) {
+      requiredFields.unshift("prompt");
+    }
+
+    const parameters: ParameterMatrix = {};
+    for (const [wireName, rawProperty] of Object.entries(properties)) {
+      const name = PARAMETERS_BY_WIRE_NAME[wireName];
+      if (!name || parameters[name]) {
+        continue;
+      }
+      const property = resolveSchema(document, rawProperty);
+      parameters[name] = {
+        wireName,
+        ...(property.minimum !== undefined ? { min: property.minimum } : {}),
+        ...(property.maximum !== undefined ? { max: property.maximum } : {}),
+        ...(property.multipleOf !== undefined ? { multipleOf: property.multipleOf } : {}),
+        ...(property.enum ? { values: property.enum.map(String) } : {}),
+        // Style images are a single input on the tool side but an array on the wire.
+        ...(name === "reference_image" && isArraySchema(property) ? { asArray: true } : {})
+      };
+    }
+
+    const definition: ModelDefinition = {
+      title: operation.summary ?? endpoint.slice(IMAGE_PATH_PREFIX.length),
+      endpoint,
+      requiredFields,
+      parameters
+    };
+    const defaultWidth = resolveSchema(document, properties.width).default;
+    const defaultHeight = resolveSchema(document, properties.height).default;
+    if (typeof defaultWidth === "number") {
+      definition.defaultWidth = defaultWidth;
+    }
+    if (typeof defaultHeight === "number") {
+      definition.defaultHeight = defaultHeight;
+    }
+
+    models[modelKeyFromEndpoint(endpoint)] = definition;
+  }
+
+  return models;
+}
+
+/**
+ * Reads a cached OpenAPI document from `KREA_OPENAPI_SPEC`, if set, so new
+ * endpoints can be registered without a release.
+ */
+export function loadRuntimeModels(): Record<string, ModelDefinition> {
+  const specPath = process.env.KREA_OPENAPI_SPEC;
+  if (!specPath) {
+    return {};
+  }
+  return modelsFromOpenApi(JSON.parse(readFileSync(specPath, "utf8")));
+}
+
+export function modelKeyFromEndpoint(endpoint: string): string {
+  return endpoint
+    .slice(IMAGE_PATH_PREFIX.length)
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "");
+}
+
+function resolveSchema(document: OpenApiSpec, schema: JsonSchema | undefined): JsonSchema {
+  let current = schema ?? {};
+  const seen = new Set<string>();
+  while (current.$ref && !seen.has(current.$ref)) {
+    seen.add(current.$ref);
+    const name = current.$ref.replace(/^#\/components\/schemas\//, "");
+    current = document.components?.schemas?.[name] ?? {};
+  }
+  if (current.allOf) {
+    const merged: JsonSchema = { ...current, properties: { ...current.properties }, required: [...(current.required ?? [])] };
+    for (const part of current.allOf) {
+      const resolved = resolveSchema(document, part);
+      Object.assign(merged.properties!, resolved.properties);
+      merged.required!.push(...(resolved.required ?? []));
+    }
+    delete merged.allOf;
+    return merged;
+  }
+  return current;
+}
+
+function isArraySchema(schema: JsonSchema): boolean {
+  return schema.type === "array" || (Array.isArray(schema.type) && schema.type.includes("array"));
+}
@@ -0,0 +1,53 @@
+import { invalidInput } from "./errors.js";
+import type { Preset, ProjectConfig } from "./projectConfig.js";
+
+const PLACEHOLDER_PATTERN = /\{([A-Za-z_][A-Za-z0-9_]*)\}/g;
+
+export function requirePreset(config: ProjectConfig, name: string): Preset {
+  const preset = config.presets[name];
+  if (!preset) {
+    const known = Object.keys(config.presets);
+    throw invalidInput(
+      `Unknown preset "${name}". Available presets: ${known.length > 0 ? known.join(", ") : "none"}.`,
+      "preset"
+    );
+  }
+  return preset;
+}
+
+/**
+ * Builds the final prompt: the named template (with `{prompt}` replaced by the
+ * caller's prompt, or the prompt appended when the template has no
+ * placeholder), wrapped in prefix and suffix, then every `{variable}` filled in.
+ */
+export function expandPrompt(
+  prompt: string,
+  options: {
+    template?: string;
+    prefix?: string;
+    suffix?: string;
+    variables?: Record<string, string>;
+  },
+  templates: Record<string, string>
+): string {
+  let body = prompt;
+  if (options.template !== undefined) {
+    const template = templates[options.template];
+    if (template === undefined) {
+      throw invalidInput(`Unknown prompt template "${options.template}".`, "template");
+    }
+    body = template.includes("{prompt}") ? template : `${template} ${prompt}`;
+  }
+
+  const text = `${options.prefix ?? ""}${body}${options.suffix ?? ""}`;
+  const variables: Record<string, string> = { ...options.variables, prompt };
+  const missing = templateVariables(text).filter((name) => variables[name] === undefined);
+  if (missing.length > 0) {
+    throw invalidInput(`Missing prompt variables: ${missing.join(", ")}.`, "variables");
+  }
+  return text.replace(PLACEHOLDER_PATTERN, (_, name: string) => variables[name]);
+}
+
+export function templateVariables(text: string): string[] {
+  return [...new Set([...text.matchAll(PLACEHOLDER_PATTERN)].map((match) => match[1]))];
+}
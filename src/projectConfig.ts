@@ -0,0 +1,78 @@
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import * as z from "zod/v4";
+
+const DEFAULT_CONFIG_FILE_NAME = "krea.config.json";
+
+// Strict so a misspelled key is reported instead of silently dropped.
+const PRESET_SCHEMA = z.strictObject({
+  description: z.string().optional(),
+  generate: z.record(z.string(), z.unknown()).optional(),
+  upscale: z.record(z.string(), z.unknown()).optional()
+});
+
+const PRICING_SCHEMA = z.object({
+  usd_per_credit: z.number().nonnegative().optional(),
+  generate: z.record(z.string(), z.number().nonnegative()).optional(),
+  generate_default: z.number().nonnegative().optional(),
+  upscale_per_megapixel: z.record(z.string(), z.number().nonnegative()).optional(),
+  video_per_second: z.record(z.string(), z.number().nonnegative()).optional(),
+  video_per_second_default: z.number().nonnegative().optional()
+});
+
+const BUDGET_SCHEMA = z.object({
+  daily_credits: z.number().nonnegative().optional(),
+  per_call_credits: z.number().nonnegative().optional()
+});
+
+const CONFIG_SCHEMA = z.object({
+  presets: z.record(z.string(), PRESET_SCHEMA).default({}),
+  templates: z.record(z.string(), z.string()).default({}),
+  pricing: PRICING_SCHEMA.default({}),
+  budget: BUDGET_SCHEMA.default({})
+});
+
+export type Preset = z.infer<typeof PRESET_SCHEMA>;
+export type PricingConfig = z.infer<typeof PRICING_SCHEMA>;
+export type BudgetConfig = z.infer<typeof BUDGET_SCHEMA>;
+
+export interface ProjectConfig {
+  path: string | null;
+  presets: Record<string, Preset>;
+  templates: Record<string, string>;
+  pricing: PricingConfig;
+  budget: BudgetConfig;
+}
+
+let explicitConfigPath: string | undefined;
+
+/** Sets the config path given on the command line; it wins over `KREA_CONFIG`. */
+export function setConfigPath(configPath: string): void {
+  explicitConfigPath = configPath;
+}
+
+/**
+ * Reads the project config on every call so edits apply without a restart.
+ * An explicitly configured file must exist; the default `./krea.config.json`
+ * is optional.
+ */
+export async function loadProjectConfig(): Promise<ProjectConfig> {
+  const configured = explicitConfigPath ?? process.env.KREA_CONFIG;
+  const configPath = path.resolve(configured ?? DEFAULT_CONFIG_FILE_NAME);
+
+  let text: string;
+  try {
+    text = await readFile(configPath, "utf8");
+  } catch (error) {
+    if (!configured && (error as NodeJS.ErrnoException).code === "ENOENT") {
+      return { path: null, presets: {}, templates: {}, pricing: {}, budget: {} };
+    }
+    throw new Error(`Failed to read Krea config ${configPath}: ${(error as Error).message}`);
+  }
+
+  const parsed = CONFIG_SCHEMA.safeParse(JSON.parse(text));
+  if (!parsed.success) {
+    throw new Error(`Invalid Krea config ${configPath}:\n${z.prettifyError(parsed.error)}`);
+  }
+  return { path: configPath, ...parsed.data };
+}
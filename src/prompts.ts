@@ -0,0 +1,177 @@
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { GetPromptResult } from "@modelcontextprotocol/sdk/types.js";
+import * as z from "zod/v4";
+import { KREA_IMAGE_MODELS, MODEL_KEYS, type ModelDefinition, type ModelKey } from "./models.js";
+
+const DEFAULT_PRODUCT_MODEL: ModelKey = "flux_1_1_pro";
+const DEFAULT_ICON_MODEL: ModelKey = "ideogram_3";
+const EDIT_MODEL: ModelKey = "seededit_3";
+const DEFAULT_PRINT_DPI = 300;
+// Standard and generative enhance accept up to 32000 px per side.
+const MAX_PRINT_PIXELS = 32000;
+const ICON_SEED = 4242;
+
+const ASPECT_RATIO_SCHEMA = z
+  .string()
+  .regex(/^\d+(\.\d+)?:\d+(\.\d+)?$/)
+  .optional()
+  .describe("WIDTH:HEIGHT, e.g. 4:5.");
+
+/**
+ * Registers slash-command style prompts that expand into instructions for the
+ * generate and upscale tools, with model keys and parameters filled in.
+ */
+export function registerPrompts(server: McpServer): void {
+  server.registerPrompt(
+    "product_shot",
+    {
+      title: "Product shot",
+      description: "Studio product photo of one item via krea_generate_image.",
+      argsSchema: {
+        product: z.string().min(1).describe("What to photograph, e.g. a matte black water bottle."),
+        background: z.string().optional().describe("Defaults to a seamless white studio backdrop."),
+        aspect_ratio: ASPECT_RATIO_SCHEMA,
+        model: z.enum(MODEL_KEYS).optional().describe(`Defaults to ${DEFAULT_PRODUCT_MODEL}.`)
+      }
+    },
+    ({ product, background, aspect_ratio, model }) => {
+      const key = model ?? DEFAULT_PRODUCT_MODEL;
+      const definition: ModelDefinition = KREA_IMAGE_MODELS[key];
+      const args: Record<string, unknown> = {
+        model: key,
+        prompt:
+          `Professional studio product photograph of ${product}, ${background ?? "on a seamless white backdrop"}, ` +
+          "soft diffused key light, subtle reflection, sharp focus, high detail, commercial catalog style",
+        aspect_ratio: aspect_ratio ?? "1:1"
+      };
+      if (definition.parameters.batch_size) {
+        args.batch_size = 4;
+      }
+      if (definition.parameters.negative_prompt) {
+        args.negative_prompt = "blurry, watermark, text, clutter, harsh shadows";
+      }
+
+      return userMessage(
+        [
+          `Generate a product shot of ${product} with ${definition.title}.`,
+          toolCall("krea_generate_image", args),
+          "Show me the results and point out the strongest candidate for a follow-up upscale."
+        ].join("\n\n")
+      );
+    }
+  );
+
+  server.registerPrompt(
+    "icon_set",
+    {
+      title: "Icon set",
+      description: "A consistent set of icons, one krea_generate_batch item per subject.",
+      argsSchema: {
+        subjects: z.string().min(1).describe("Comma-separated icon subjects, e.g. home, search, settings."),
+        style: z.string().optional().describe("Defaults to flat vector with a consistent line weight."),
+        model: z.enum(MODEL_KEYS).optional().describe(`Defaults to ${DEFAULT_ICON_MODEL}.`)
+      }
+    },
+    ({ subjects, style, model }) => {
+      const key = model ?? DEFAULT_ICON_MODEL;
+      const definition: ModelDefinition = KREA_IMAGE_MODELS[key];
+      const names = subjects
+        .split(",")
+        .map((subject) => subject.trim())
+        .filter((subject) => subject.length > 0);
+      const look = style ?? "flat vector icon, consistent 2px line weight, rounded corners, two-tone palette";
+      const items = names.map((name) => ({
+        model: key,
+        prompt: `${name} icon, ${look}, centered on a plain white background, no text`,
+        aspect_ratio: "1:1",
+        // A shared seed keeps the set visually consistent.
+        ...(definition.parameters.seed ? { seed: ICON_SEED } : {})
+      }));
+
+      return userMessage(
+        [
+          `Create a matching set of ${names.length} icons (${names.join(", ")}) with ${definition.title}.`,
+          toolCall("krea_generate_batch", { items }),
+          "Check the set for a consistent style and regenerate any icon that does not match the others."
+        ].join("\n\n")
+      );
+    }
+  );
+
+  server.registerPrompt(
+    "seededit_edit",
+    {
+      title: "Edit an image with Seededit",
+      description: `Edits an existing image from an instruction using ${EDIT_MODEL}.`,
+      argsSchema: {
+        image: z.string().min(1).describe("Image URL, local path or data URI."),
+        instruction: z.string().min(1).describe("What to change, e.g. make the sky a sunset.")
+      }
+    },
+    ({ image, instruction }) =>
+      userMessage(
+        [
+          `Edit this image: ${instruction}.`,
+          toolCall("krea_generate_image", { model: EDIT_MODEL, prompt: instruction, image_url: image }),
+          "Keep everything the instruction does not mention unchanged, and show me the before and after."
+        ].join("\n\n")
+      )
+  );
+
+  server.registerPrompt(
+    "upscale_for_print",
+    {
+      title: "Upscale for print",
+      description: "Upscales an image to the pixel size a print needs at a given DPI via krea_upscale_image.",
+      argsSchema: {
+        image: z.string().min(1).describe("Image URL, local path or data URI."),
+        print_size: z
+          .string()
+          .regex(/^\d+(\.\d+)?x\d+(\.\d+)?$/)
+          .describe("Print size in inches as WIDTHxHEIGHT, e.g. 8x10."),
+        dpi: z
+          .string()
+          .regex(/^[1-9][0-9]*$/)
+          .optional()
+          .describe(`Dots per inch. Defaults to ${DEFAULT_PRINT_DPI}.`)
+      }
+    },
+    ({ image, print_size, dpi }) => {
+      const density = dpi !== undefined ? Number(dpi) : DEFAULT_PRINT_DPI;
+      const [widthInches, heightInches] = print_size.split("x").map(Number);
+      const width = Math.round(widthInches * density);
+      const height = Math.round(heightInches * density);
+      if (width > MAX_PRINT_PIXELS || height > MAX_PRINT_PIXELS) {
+        throw new Error(
+          `${print_size} in at ${density} DPI needs ${width}x${height} px, above the ${MAX_PRINT_PIXELS} px upscale limit.`
+        );
+      }
+
+      return userMessage(
+        [
+          `Upscale this image for a ${print_size} inch print at ${density} DPI (${width}x${height} px).`,
+          toolCall("krea_upscale_image", {
+            image_url: image,
+            mode: "standard",
+            model: "High Fidelity V2",
+            width,
+            height,
+            crop_to_fill: true,
+            output_format: "png",
+            download: true
+          }),
+          "crop_to_fill trims the image to the print's aspect ratio; if the source is much smaller than the " +
+            "target, use mode generative with model Redefine instead to add detail rather than blur."
+        ].join("\n\n")
+      );
+    }
+  );
+}
+
+function toolCall(tool: string, args: Record<string, unknown>): string {
+  return `Call \`${tool}\` with:\n\n\`\`\`json\n${JSON.stringify(args, null, 2)}\n\`\`\``;
+}
+
+function userMessage(text: string): GetPromptResult {
+  return { messages: [{ role: "user", content: { type: "text", text } }] };
+}
@@ -0,0 +1,3237 @@
+import path from "node:path";
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import type {
+  CallToolResult,
+  ServerNotification,
+  ServerRequest,
+  TextContent
+} from "@modelcontextprotocol/sdk/types.js";
+import * as z from "zod/v4";
+import {
+  describeParameters,
+  describeRequiredFields,
+  GENERATE_PARAMETERS,
+  KREA_IMAGE_MODELS,
+  KREA_VIDEO_MODELS,
+  mergeModelCatalogs,
+  VIDEO_MODEL_KEYS,
+  VIDEO_PARAMETERS,
+  type GenerateParameter,
+  type ModelDefinition,
+  type VideoModelDefinition,
+  type VideoModelKey,
+  type VideoParameter
+} from "./models.js";
+import { GENERATED_IMAGE_MODELS } from "./models.generated.js";
+import { loadRuntimeModels } from "./openapi.js";
+import {
+  extractHttpUrls,
+  isTerminalStatus,
+  KreaClient,
+  normalizeStatus,
+  readProgressPercent,
+  sleep,
+  stringifyUnknown
+} from "./kreaClient.js";
+import { defaultDataDir, JobStore, type JobRecord } from "./jobStore.js";
+import { resolveLocalPath } from "./localPaths.js";
+import { AssetUploader, isImageSource, isRemoteUrl } from "./assets.js";
+import { probeImageSize, type ImageSize } from "./imageSize.js";
+import { registerPrompts } from "./prompts.js";
+import { WebhookReceiver } from "./webhooks.js";
+import {
+  classifyError,
+  classifyJobFailure,
+  invalidFields,
+  invalidInput,
+  KreaToolError,
+  unexpectedResponse,
+  type ErrorDetails
+} from "./errors.js";
+import { expandPrompt, requirePreset, templateVariables } from "./presets.js";
+import { loadProjectConfig, type ProjectConfig } from "./projectConfig.js";
+import { matchAspectRatio, resolveSize, supportsAspectRatio, supportsSizeTarget } from "./dimensions.js";
+import {
+  budgetLimits,
+  checkBudget,
+  estimateGenerateCost,
+  estimateUpscaleCost,
+  estimateVideoCost,
+  formatCredits,
+  readBatchSize,
+  startOfUtcDay,
+  summarizeUsage,
+  type BudgetLimits,
+  type CostEstimate
+} from "./usage.js";
+import { writeContactSheet, type ContactSheetEntry } from "./contactSheet.js";
+import {
+  DEFAULT_INLINE_IMAGE_MAX_BYTES,
+  downloadImages,
+  fetchImage,
+  type DownloadedImage,
+  type DownloadFailure,
+  type ImageContent
+} from "./images.js";
+
+const DEFAULT_POLL_INTERVAL_MS = 2000;
+const DEFAULT_TIMEOUT_MS = 180000;
+const DEFAULT_BATCH_CONCURRENCY = 4;
+const RESUME_TIMEOUT_MS = 3600000;
+const DEFAULT_VIDEO_POLL_INTERVAL_MS = 5000;
+const DEFAULT_VIDEO_TIMEOUT_MS = 900000;
+const DEFAULT_STYLE_STRENGTH = 1;
+const DEFAULT_STYLE_TRAINING_TIMEOUT_MS = 3600000;
+const STYLE_TYPES = ["style", "object", "character", "default"] as const;
+const RESOURCE_LIST_LIMIT = 100;
+const WEBHOOK_PAYLOAD_FIELD = "webhookUrl";
+const DRY_RUN_ENV = "KREA_DRY_RUN";
+const UPSCALE_MODES = ["standard", "generative", "bloom"] as const;
+const UPSCALE_OUTPUT_FORMATS = ["png", "jpg", "webp"] as const;
+const UPSCALE_SUBJECT_DETECTION = ["All", "Foreground", "Background"] as const;
+const UPSCALE_STANDARD_MODELS = [
+  "Standard V2",
+  "Low Resolution V2",
+  "CGI",
+  "High Fidelity V2",
+  "Text Refine"
+] as const;
+const UPSCALE_GENERATIVE_MODELS = ["Redefine", "Recovery", "Recovery V2", "Reimagine"] as const;
+
+type UpscaleMode = (typeof UPSCALE_MODES)[number];
+
+// Generated definitions, then runtime ones from a cached spec, then the hand-written registry.
+const IMAGE_MODELS = mergeModelCatalogs(
+  GENERATED_IMAGE_MODELS,
+  loadRuntimeModels(),
+  KREA_IMAGE_MODELS as Record<string, ModelDefinition>
+);
+const IMAGE_MODEL_KEYS = Object.keys(IMAGE_MODELS) as [string, ...string[]];
+
+type ToolExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+type ToolResult = {
+  content: (TextContent | ImageContent)[];
+  structuredContent: Record<string, unknown>;
+};
+
+type PollListener = (jobId: string, job: Record<string, unknown>, status: string) => Promise<void>;
+
+// Generate options krea_compare_models shares across models, filtered per model.
+const COMPARE_OPTION_KEYS = [
+  "width",
+  "height",
+  "size",
+  "aspect_ratio",
+  "megapixels",
+  "long_edge",
+  "seed",
+  "batch_size",
+  "guidance_scale",
+  "num_inference_steps",
+  "negative_prompt",
+  "style"
+] as const;
+
+type CompareOptionKey = (typeof COMPARE_OPTION_KEYS)[number];
+
+type CompareInput = DownloadInput &
+  Pick<GenerateInput, CompareOptionKey | "poll_interval_ms" | "timeout_ms"> & {
+    prompt: string;
+    models: string[];
+    html_path?: string;
+  };
+
+type BatchItemResult = {
+  index: number;
+  ok: boolean;
+  result?: Record<string, unknown>;
+  error?: ErrorDetails;
+  images?: ImageContent[];
+};
+
+/** What a job-running helper needs from the tool call that started it. */
+type JobContext = {
+  client: KreaClient;
+  signal?: AbortSignal;
+  onPoll?: PollListener;
+  /** Credits reserved up front for every job of a multi-job call, such as the pipeline. */
+  budget?: BudgetReservation;
+};
+
+/** Credits held under the budget lock for jobs that are not in the job registry yet. */
+type BudgetReservation = {
+  /** Hands credits over to a job that was just recorded. Call under the budget lock. */
+  settle(credits: number): void;
+  /** Releases whatever is still reserved. */
+  release(): Promise<void>;
+};
+
+const IMAGE_SOURCE_SCHEMA = z
+  .string()
+  .refine(isImageSource, "Expected an http(s) URL, file:// URL, absolute file path or data: URI.");
+
+// No zod defaults on these: a value the caller leaves unset can still come from a preset.
+const JOB_WAIT_INPUT_SCHEMA = {
+  wait_for_completion: z.boolean().optional().describe("Poll until the job finishes. Defaults to true."),
+  poll_interval_ms: z
+    .number()
+    .int()
+    .min(500)
+    .max(10000)
+    .optional()
+    .describe(`Defaults to ${DEFAULT_POLL_INTERVAL_MS}.`),
+  timeout_ms: z.number().int().min(5000).max(600000).optional().describe(`Defaults to ${DEFAULT_TIMEOUT_MS}.`)
+};
+
+const DOWNLOAD_INPUT_SCHEMA = {
+  download: z
+    .boolean()
+    .optional()
+    .describe("Save results to disk and return them as inline image content. Requires wait_for_completion."),
+  output_dir: z
+    .string()
+    .optional()
+    .describe("Directory for downloaded images; implies download. Defaults to <KREA_DATA_DIR>/images."),
+  inline_max_bytes: z
+    .number()
+    .int()
+    .min(0)
+    .max(10 * 1024 * 1024)
+    .optional()
+    .describe(`Images larger than this are saved but not returned inline. Defaults to ${DEFAULT_INLINE_IMAGE_MAX_BYTES}.`)
+};
+
+const DRY_RUN_SCHEMA = z
+  .boolean()
+  .optional()
+  .describe(`Validate and return the payload and estimated cost without submitting. Forced on by ${DRY_RUN_ENV}.`);
+
+const UPSCALE_INPUT_SCHEMA = {
+  preset: z.string().optional().describe("Preset name from krea_list_presets; explicit inputs win over its values."),
+  mode: z.enum(UPSCALE_MODES).optional().describe("Defaults to standard."),
+  image_url: IMAGE_SOURCE_SCHEMA,
+  width: z
+    .number()
+    .int()
+    .min(1)
+    .max(32000)
+    .optional()
+    .describe("Output width. Given alone, height follows the source aspect ratio."),
+  height: z
+    .number()
+    .int()
+    .min(1)
+    .max(32000)
+    .optional()
+    .describe("Output height. Given alone, width follows the source aspect ratio."),
+  scale: z
+    .number()
+    .min(1)
+    .max(32)
+    .optional()
+    .describe("Upscale factor such as 2 or 4, applied to the source size read from the image header."),
+  max_long_edge: z
+    .number()
+    .int()
+    .min(1)
+    .max(32000)
+    .optional()
+    .describe("Cap on the output's long edge; without scale, upscales to exactly this long edge."),
+  model: z.string().optional(),
+  batch_size: z.number().int().min(1).max(4).optional(),
+  seed: z.number().int().min(0).optional(),
+  prompt: z.string().optional(),
+  output_format: z.enum(UPSCALE_OUTPUT_FORMATS).optional(),
+  subject_detection: z.enum(UPSCALE_SUBJECT_DETECTION).optional(),
+  face_enhancement: z.boolean().optional(),
+  face_enhancement_creativity: z.number().min(0).max(1).optional(),
+  face_enhancement_strength: z.number().min(0).max(1).optional(),
+  crop_to_fill: z.boolean().optional(),
+  upscaling_activated: z.boolean().optional(),
+  image_scaling_factor: z.number().min(1).max(32).optional(),
+  sharpen: z.number().min(0).max(1).optional(),
+  denoise: z.number().min(0).max(1).optional(),
+  fix_compression: z.number().min(0).max(1).optional(),
+  strength: z.number().min(0.01).max(1).optional(),
+  creativity: z.number().int().min(1).max(9).optional(),
+  texture: z.number().int().min(1).max(5).optional(),
+  detail: z.number().min(0).max(1).optional(),
+  face_preservation: z.boolean().optional(),
+  color_preservation: z.boolean().optional(),
+  dry_run: DRY_RUN_SCHEMA,
+  ...JOB_WAIT_INPUT_SCHEMA,
+  ...DOWNLOAD_INPUT_SCHEMA
+};
+
+const GENERATE_INPUT_SCHEMA = {
+  preset: z.string().optional().describe("Preset name from krea_list_presets; explicit inputs win over its values."),
+  template: z.string().optional().describe("Prompt template name from krea_list_presets; overrides the preset's template."),
+  variables: z
+    .record(z.string(), z.string())
+    .optional()
+    .describe("Values for {name} placeholders in the prompt, template, prefix and suffix."),
+  model: z.enum(IMAGE_MODEL_KEYS).optional().describe("Model key from krea_list_models. Required unless the preset sets it."),
+  prompt: z.string().min(1),
+  width: z.number().int().min(256).max(4096).optional(),
+  height: z.number().int().min(256).max(4096).optional(),
+  seed: z.number().int().min(0).optional(),
+  batch_size: z.number().int().min(1).max(8).optional(),
+  guidance_scale: z.number().positive().optional(),
+  num_inference_steps: z.number().int().positive().optional(),
+  negative_prompt: z.string().optional(),
+  size: z.string().regex(/^[1-9][0-9]*x[1-9][0-9]*$/).optional(),
+  aspect_ratio: z
+    .string()
+    .regex(/^\d+(\.\d+)?:\d+(\.\d+)?$/)
+    .optional()
+    .describe("WIDTH:HEIGHT, e.g. 16:9. Resolved per model into legal dimensions or its aspect-ratio field."),
+  megapixels: z.number().positive().max(64).optional().describe("Target area for aspect_ratio. Defaults to the model default or 1 MP."),
+  long_edge: z.number().int().min(64).max(16384).optional().describe("Target long edge in pixels for aspect_ratio."),
+  style: z.string().optional().describe("Style id; shorthand for styles: [{ id, strength: 1 }]."),
+  styles: z
+    .array(
+      z.object({
+        id: z.string().min(1),
+        strength: z.number().min(-2).max(2).optional().describe(`Defaults to ${DEFAULT_STYLE_STRENGTH}.`)
+      })
+    )
+    .min(1)
+    .max(10)
+    .optional()
+    .describe("Styles (LoRAs) from krea_list_styles, each with an optional strength."),
+  reference_image: IMAGE_SOURCE_SCHEMA.optional(),
+  reference_images: z.array(IMAGE_SOURCE_SCHEMA).min(1).optional(),
+  image_url: IMAGE_SOURCE_SCHEMA.optional(),
+  sync_mode: z.boolean().optional(),
+  strict: z
+    .boolean()
+    .optional()
+    .describe("Reject parameters the model does not support instead of dropping them with a warning. Defaults to false."),
+  dry_run: DRY_RUN_SCHEMA,
+  ...JOB_WAIT_INPUT_SCHEMA,
+  ...DOWNLOAD_INPUT_SCHEMA
+};
+
+type StyleReference = { id: string; strength?: number };
+
+type DownloadInput = {
+  download?: boolean;
+  output_dir?: string;
+  inline_max_bytes?: number;
+};
+
+type GenerateInput = DownloadInput & {
+  model: string;
+  prompt: string;
+  width?: number;
+  height?: number;
+  seed?: number;
+  batch_size?: number;
+  guidance_scale?: number;
+  num_inference_steps?: number;
+  negative_prompt?: string;
+  size?: string;
+  aspect_ratio?: string;
+  megapixels?: number;
+  long_edge?: number;
+  style?: string;
+  styles?: StyleReference[];
+  reference_image?: string;
+  reference_images?: string[];
+  image_url?: string;
+  sync_mode?: boolean;
+  strict?: boolean;
+  dry_run?: boolean;
+  wait_for_completion?: boolean;
+  poll_interval_ms?: number;
+  timeout_ms?: number;
+};
+
+/** krea_generate_image arguments before the preset and prompt template are applied. */
+type GenerateArgs = Omit<GenerateInput, "model"> & {
+  model?: string;
+  preset?: string;
+  template?: string;
+  variables?: Record<string, string>;
+};
+
+type UpscaleInput = DownloadInput & {
+  mode?: UpscaleMode;
+  image_url: string;
+  width?: number;
+  height?: number;
+  scale?: number;
+  max_long_edge?: number;
+  model?: string;
+  batch_size?: number;
+  seed?: number;
+  prompt?: string;
+  output_format?: (typeof UPSCALE_OUTPUT_FORMATS)[number];
+  subject_detection?: (typeof UPSCALE_SUBJECT_DETECTION)[number];
+  face_enhancement?: boolean;
+  face_enhancement_creativity?: number;
+  face_enhancement_strength?: number;
+  crop_to_fill?: boolean;
+  upscaling_activated?: boolean;
+  image_scaling_factor?: number;
+  sharpen?: number;
+  denoise?: number;
+  fix_compression?: number;
+  strength?: number;
+  creativity?: number;
+  texture?: number;
+  detail?: number;
+  face_preservation?: boolean;
+  color_preservation?: boolean;
+  dry_run?: boolean;
+  wait_for_completion?: boolean;
+  poll_interval_ms?: number;
+  timeout_ms?: number;
+};
+
+type UpscaleArgs = UpscaleInput & { preset?: string };
+
+const VIDEO_INPUT_SCHEMA = {
+  model: z.enum(VIDEO_MODEL_KEYS).describe("Video model key from krea_list_video_models."),
+  prompt: z.string().min(1),
+  duration: z.number().int().positive().optional().describe("Clip length in seconds. Defaults to the model's first duration."),
+  aspect_ratio: z
+    .string()
+    .regex(/^\d+(\.\d+)?:\d+(\.\d+)?$/)
+    .optional()
+    .describe("WIDTH:HEIGHT, e.g. 16:9. Mapped to the closest ratio the model offers."),
+  resolution: z.string().optional().describe("Output resolution, e.g. 720p; see the model's accepted values."),
+  seed: z.number().int().min(0).optional(),
+  negative_prompt: z.string().optional(),
+  start_image: IMAGE_SOURCE_SCHEMA.optional().describe("First frame (image-to-video)."),
+  end_image: IMAGE_SOURCE_SCHEMA.optional().describe("Last frame, for models that support it."),
+  generate_audio: z.boolean().optional(),
+  strict: GENERATE_INPUT_SCHEMA.strict,
+  wait_for_completion: JOB_WAIT_INPUT_SCHEMA.wait_for_completion,
+  poll_interval_ms: z
+    .number()
+    .int()
+    .min(1000)
+    .max(60000)
+    .optional()
+    .describe(`Defaults to ${DEFAULT_VIDEO_POLL_INTERVAL_MS}.`),
+  timeout_ms: z.number().int().min(5000).max(3600000).optional().describe(`Defaults to ${DEFAULT_VIDEO_TIMEOUT_MS}.`),
+  download: z.boolean().optional().describe("Save the videos to disk. Requires wait_for_completion."),
+  output_dir: z
+    .string()
+    .optional()
+    .describe("Directory for downloaded videos; implies download. Defaults to <KREA_DATA_DIR>/videos.")
+};
+
+const PIPELINE_INPUT_SCHEMA = {
+  generate: z
+    .object(GENERATE_INPUT_SCHEMA)
+    .omit({ dry_run: true, wait_for_completion: true, download: true, output_dir: true, inline_max_bytes: true })
+    .describe("Generation spec with the same fields as krea_generate_image."),
+  upscale: z
+    .object(UPSCALE_INPUT_SCHEMA)
+    .omit({
+      image_url: true,
+      dry_run: true,
+      wait_for_completion: true,
+      download: true,
+      output_dir: true,
+      inline_max_bytes: true
+    })
+    .describe("Upscale spec with the krea_upscale_image fields except image_url, e.g. mode, model and scale."),
+  upscale_outputs: z
+    .union([z.literal("all"), z.array(z.number().int().min(0)).min(1)])
+    .optional()
+    .describe('Indexes of the generated images to upscale, or "all". Defaults to [0].'),
+  ...DOWNLOAD_INPUT_SCHEMA
+};
+
+type PipelineInput = DownloadInput & {
+  generate: Omit<GenerateArgs, "dry_run" | "wait_for_completion" | keyof DownloadInput>;
+  upscale: Omit<UpscaleArgs, "image_url" | "dry_run" | "wait_for_completion" | keyof DownloadInput>;
+  upscale_outputs?: "all" | number[];
+};
+
+const IMAGE_OUTPUT_SCHEMA = z.object({
+  index: z.number().int(),
+  url: z.string(),
+  width: z.number().int().nullable().describe("Requested output width; null when the model picks it."),
+  height: z.number().int().nullable(),
+  format: z.string().nullable().describe("png, jpeg or webp when known."),
+  path: z.string().nullable().describe("Local file when downloaded.")
+});
+
+const DOWNLOAD_OUTPUT_SCHEMA = z.object({
+  index: z.number().int(),
+  url: z.string(),
+  path: z.string(),
+  content_type: z.string(),
+  bytes: z.number().int(),
+  inlined: z.boolean()
+});
+
+const COST_OUTPUT_SCHEMA = z.object({ credits: z.number(), usd: z.number().nullable() });
+
+// Fields shared by krea_generate_image and krea_upscale_image on every path:
+// dry run, no-wait and wait. Job fields are null or empty until they are known.
+const JOB_OUTPUT_FIELDS = {
+  endpoint: z.string(),
+  payload_sent: z.record(z.string(), z.unknown()).describe("Request body; for dry runs, what would be sent."),
+  estimated_cost: COST_OUTPUT_SCHEMA,
+  dry_run: z.boolean(),
+  wait_for_completion: z.boolean(),
+  job_id: z.string().nullable(),
+  status: z.string().describe('Job status, or "dry_run".'),
+  images: z.array(IMAGE_OUTPUT_SCHEMA),
+  image_urls: z.array(z.string()),
+  downloads: z.array(DOWNLOAD_OUTPUT_SCHEMA),
+  error: z.unknown().describe("Job error, null when there is none."),
+  job: z.record(z.string(), z.unknown()).nullable().describe("Latest job object: the final one when waiting."),
+  job_response: z.unknown().describe("Raw Krea response the job object came from."),
+  dropped_fields: z.array(z.string()),
+  remapped_fields: z.record(z.string(), z.string()).describe("Input field -> payload field(s)."),
+  warnings: z.array(z.string()),
+  retries: z.number().int()
+};
+
+const GENERATE_OUTPUT_SCHEMA = z.object({
+  model: z.string(),
+  dimensions: z.object({
+    requested: z.record(z.string(), z.unknown()),
+    resolved: z.record(z.string(), z.unknown())
+  }),
+  ...JOB_OUTPUT_FIELDS
+});
+
+const UPSCALE_OUTPUT_SCHEMA = z.object({
+  mode: z.enum(UPSCALE_MODES),
+  model: z.string(),
+  source_size: z
+    .object({ width: z.number().int(), height: z.number().int(), format: z.string() })
+    .nullable()
+    .describe("Source size read from the image header when scale or one side was given."),
+  ...JOB_OUTPUT_FIELDS
+});
+
+const LIST_MODELS_OUTPUT_SCHEMA = z.object({
+  models: z.array(
+    z.object({
+      key: z.string(),
+      title: z.string(),
+      endpoint: z.string(),
+      required_fields: z.array(z.string()),
+      parameters: z.record(
+        z.string(),
+        z.object({
+          wire_name: z.string(),
+          min: z.number().nullable(),
+          max: z.number().nullable(),
+          as_array: z.boolean(),
+          multiple_of: z.number().nullable(),
+          values: z.array(z.string()).nullable()
+        })
+      ),
+      allowed_sizes: z.array(z.string()).nullable(),
+      notes: z.string().nullable()
+    })
+  )
+});
+
+type ImageOutput = z.infer<typeof IMAGE_OUTPUT_SCHEMA>;
+type GenerateOutput = z.infer<typeof GENERATE_OUTPUT_SCHEMA>;
+type UpscaleOutput = z.infer<typeof UPSCALE_OUTPUT_SCHEMA>;
+type ModelDescription = z.infer<typeof LIST_MODELS_OUTPUT_SCHEMA>["models"][number];
+
+type PipelineUpscaleResult = {
+  index: number;
+  source_url: string;
+  ok: boolean;
+  result?: Record<string, unknown>;
+  error?: ErrorDetails;
+  images?: ImageContent[];
+};
+
+type VideoInput = {
+  model: VideoModelKey;
+  prompt: string;
+  duration?: number;
+  aspect_ratio?: string;
+  resolution?: string;
+  seed?: number;
+  negative_prompt?: string;
+  start_image?: string;
+  end_image?: string;
+  generate_audio?: boolean;
+  strict?: boolean;
+  wait_for_completion?: boolean;
+  poll_interval_ms?: number;
+  timeout_ms?: number;
+  download?: boolean;
+  output_dir?: string;
+};
+
+// Stands in for the generated image while the pipeline checks its upscale spec.
+const PIPELINE_SOURCE_PLACEHOLDER = "https://krea.invalid/generated.png";
+
+const jobStore = JobStore.fromEnv();
+const assetUploader = AssetUploader.fromEnv();
+const webhookReceiver = WebhookReceiver.fromEnv();
+// Credits of jobs that passed the budget check but are not in the job registry yet.
+let reservedCredits = 0;
+let budgetLock: Promise<void> = Promise.resolve();
+
+export function createServer(): McpServer {
+  const server = new McpServer({
+    name: "krea-image-generator",
+    version: "0.1.0"
+  });
+
+  registerTools(server);
+  registerResources(server);
+  registerPrompts(server);
+
+  const unsubscribe = jobStore.onJobFinished(() => {
+    if (server.isConnected()) {
+      server.sendResourceListChanged();
+    }
+  });
+  server.server.onclose = unsubscribe;
+  return server;
+}
+
+function registerTools(server: McpServer): void {
+  server.registerTool(
+    "krea_list_models",
+    {
+      title: "List Krea image models",
+      description:
+        "Returns the supported Krea image generation models with their required fields and supported parameters.",
+      inputSchema: {},
+      outputSchema: LIST_MODELS_OUTPUT_SCHEMA.shape
+    },
+    handleToolErrors(async () => {
+      const models = describeImageModels();
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(models, null, 2)
+          }
+        ],
+        structuredContent: { models }
+      };
+    })
+  );
+
+  server.registerTool(
+    "krea_upscale_image",
+    {
+      title: "Upscale and enhance image with Krea",
+      description:
+        "Upscales and enhances an image using Krea Topaz enhance endpoints (standard, generative, bloom).",
+      inputSchema: UPSCALE_INPUT_SCHEMA,
+      outputSchema: UPSCALE_OUTPUT_SCHEMA.shape
+    },
+    handleToolErrors(async (rawInput: UpscaleArgs, extra: ToolExtra) =>
+      upscaleImage(rawInput, {
+        client: KreaClient.fromEnv(),
+        signal: extra.signal,
+        onPoll: progressReporter(extra)
+      })
+    )
+  );
+
+  server.registerTool(
+    "krea_generate_image",
+    {
+      title: "Generate image with Krea",
+      description: "Generates an image using Krea API with selectable model and optional polling until completion.",
+      inputSchema: GENERATE_INPUT_SCHEMA,
+      outputSchema: GENERATE_OUTPUT_SCHEMA.shape
+    },
+    handleToolErrors(async (rawInput: GenerateArgs, extra: ToolExtra) =>
+      generateImage(rawInput, {
+        client: KreaClient.fromEnv(),
+        signal: extra.signal,
+        onPoll: progressReporter(extra)
+      })
+    )
+  );
+
+  server.registerTool(
+    "krea_generate_and_upscale",
+    {
+      title: "Generate and upscale with Krea",
+      description:
+        "Generates images, then upscales the chosen outputs with the Topaz enhance endpoints in one call. " +
+        "Returns both stages' job ids and URLs; a failed upscale keeps the generated image.",
+      inputSchema: PIPELINE_INPUT_SCHEMA
+    },
+    handleToolErrors(async (input: PipelineInput, extra: ToolExtra) =>
+      generateAndUpscale(input, {
+        client: KreaClient.fromEnv(),
+        signal: extra.signal,
+        onPoll: progressReporter(extra)
+      })
+    )
+  );
+
+  server.registerTool(
+    "krea_list_video_models",
+    {
+      title: "List Krea video models",
+      description:
+        "Returns the supported Krea video models with their required fields, durations and supported parameters.",
+      inputSchema: {}
+    },
+    handleToolErrors(async () => {
+      const models = VIDEO_MODEL_KEYS.map((key) => {
+        const model: VideoModelDefinition = KREA_VIDEO_MODELS[key];
+        return {
+          key,
+          title: model.title,
+          endpoint: model.endpoint,
+          required_fields: model.requiredFields,
+          durations: model.durations,
+          parameters: describeParameters(model.parameters),
+          notes: model.notes ?? null
+        };
+      });
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(models, null, 2)
+          }
+        ],
+        structuredContent: { models }
+      };
+    })
+  );
+
+  server.registerTool(
+    "krea_generate_video",
+    {
+      title: "Generate video with Krea",
+      description:
+        "Generates a video from a prompt and optional start/end frames, optionally polling until completion. " +
+        "Video jobs take minutes, so the default timeout is longer than for images.",
+      inputSchema: VIDEO_INPUT_SCHEMA
+    },
+    handleToolErrors(async (input: VideoInput, extra: ToolExtra) =>
+      generateVideo(input, {
+        client: KreaClient.fromEnv(),
+        signal: extra.signal,
+        onPoll: progressReporter(extra)
+      })
+    )
+  );
+
+  server.registerTool(
+    "krea_generate_batch",
+    {
+      title: "Generate many images with Krea",
+      description:
+        "Runs many krea_generate_image specs with bounded concurrency and reports a result per item, " +
+        "so one failed job does not discard the rest.",
+      inputSchema: {
+        items: z
+          .array(z.object(GENERATE_INPUT_SCHEMA))
+          .min(1)
+          .max(100)
+          .describe("Generate specs with the same fields as krea_generate_image."),
+        concurrency: z
+          .number()
+          .int()
+          .min(1)
+          .max(16)
+          .default(DEFAULT_BATCH_CONCURRENCY)
+          .describe("Maximum number of jobs in flight at once.")
+      }
+    },
+    handleToolErrors(async (input: { items: GenerateArgs[]; concurrency?: number }, extra: ToolExtra) => {
+      const client = KreaClient.fromEnv();
+      const progressToken = extra._meta?.progressToken;
+      let finished = 0;
+
+      const results = await mapWithConcurrency(
+        input.items,
+        input.concurrency ?? DEFAULT_BATCH_CONCURRENCY,
+        async (item, index) => {
+          let entry: BatchItemResult;
+          try {
+            const result = await generateImage(item, { client, signal: extra.signal });
+            entry = {
+              index,
+              ok: generateSucceeded(result.structuredContent),
+              result: result.structuredContent,
+              error: outputError(result.structuredContent),
+              images: result.content.filter((block): block is ImageContent => block.type === "image")
+            };
+          } catch (error) {
+            entry = { index, ok: false, error: classifyError(error) };
+          }
+
+          finished += 1;
+          if (progressToken !== undefined) {
+            await extra.sendNotification({
+              method: "notifications/progress",
+              params: {
+                progressToken,
+                progress: finished,
+                total: input.items.length,
+                message: `Item ${index} ${entry.ok ? "finished" : "failed"}`
+              }
+            });
+          }
+          return entry;
+        },
+        extra.signal
+      );
+
+      const succeeded = results.filter((entry) => entry.ok).length;
+      const summaryLines = [`Batch: ${succeeded}/${results.length} succeeded`];
+      for (const entry of results) {
+        if (entry.ok) {
+          const urls = readUnknown(entry.result, "image_urls");
+          const detail = Array.isArray(urls) && urls.length > 0 ? urls.join(", ") : readString(entry.result, "status");
+          summaryLines.push(`[${entry.index}] ${readString(entry.result, "job_id")}: ${detail}`);
+        } else {
+          const reason = entry.error?.message ?? readString(entry.result, "status");
+          summaryLines.push(`[${entry.index}] failed: ${reason}`);
+        }
+      }
+
+      return {
+        content: [
+          { type: "text", text: summaryLines.join("\n") },
+          ...results.flatMap((entry) => entry.images ?? [])
+        ],
+        structuredContent: {
+          total: results.length,
+          succeeded,
+          failed: results.length - succeeded,
+          items: results.map(({ images: _images, ...entry }) => entry),
+          retries: client.retryCount
+        }
+      };
+    })
+  );
+
+  server.registerTool(
+    "krea_compare_models",
+    {
+      title: "Compare Krea models",
+      description:
+        "Runs one prompt across several models in parallel and returns the results grouped by model. " +
+        "Shared options a model cannot accept are left out for that model.",
+      inputSchema: {
+        prompt: GENERATE_INPUT_SCHEMA.prompt,
+        models: z.array(z.enum(IMAGE_MODEL_KEYS)).min(2).max(20).describe("Model keys from krea_list_models."),
+        width: GENERATE_INPUT_SCHEMA.width,
+        height: GENERATE_INPUT_SCHEMA.height,
+        size: GENERATE_INPUT_SCHEMA.size,
+        aspect_ratio: GENERATE_INPUT_SCHEMA.aspect_ratio,
+        megapixels: GENERATE_INPUT_SCHEMA.megapixels,
+        long_edge: GENERATE_INPUT_SCHEMA.long_edge,
+        seed: GENERATE_INPUT_SCHEMA.seed,
+        batch_size: GENERATE_INPUT_SCHEMA.batch_size,
+        guidance_scale: GENERATE_INPUT_SCHEMA.guidance_scale,
+        num_inference_steps: GENERATE_INPUT_SCHEMA.num_inference_steps,
+        negative_prompt: GENERATE_INPUT_SCHEMA.negative_prompt,
+        style: GENERATE_INPUT_SCHEMA.style,
+        poll_interval_ms: GENERATE_INPUT_SCHEMA.poll_interval_ms,
+        timeout_ms: GENERATE_INPUT_SCHEMA.timeout_ms,
+        html_path: z.string().optional().describe("Write an HTML contact sheet of the results to this path."),
+        ...DOWNLOAD_INPUT_SCHEMA
+      }
+    },
+    handleToolErrors(async (input: CompareInput, extra: ToolExtra) => {
+      await checkOutputPaths(input);
+      const client = KreaClient.fromEnv();
+      const models = [...new Set(input.models)];
+
+      const results = await Promise.all(
+        models.map(async (key) => {
+          const model = IMAGE_MODELS[key];
+          const { accepted, omitted } = pickSupportedOptions(input, model);
+          const startedAt = Date.now();
+          const base = { model: key, title: model.title, omitted_options: omitted };
+          try {
+            const result = await generateImage(
+              {
+                ...accepted,
+                model: key,
+                prompt: input.prompt,
+                poll_interval_ms: input.poll_interval_ms,
+                timeout_ms: input.timeout_ms,
+                download: input.download,
+                output_dir: input.output_dir,
+                inline_max_bytes: input.inline_max_bytes
+              },
+              { client, signal: extra.signal }
+            );
+            return {
+              ...base,
+              status: readString(result.structuredContent, "status") ?? "unknown",
+              job_id: readString(result.structuredContent, "job_id") ?? null,
+              elapsed_ms: Date.now() - startedAt,
+              image_urls: (readUnknown(result.structuredContent, "image_urls") as string[] | undefined) ?? [],
+              downloads: (readUnknown(result.structuredContent, "downloads") as DownloadedImage[] | undefined) ?? [],
+              error: outputError(result.structuredContent) ?? null
+            };
+          } catch (error) {
+            return {
+              ...base,
+              status: "error",
+              job_id: null,
+              elapsed_ms: Date.now() - startedAt,
+              image_urls: [],
+              downloads: [],
+              error: classifyError(error)
+            };
+          }
+        })
+      );
+
+      let contactSheet: string | null = null;
+      if (input.html_path) {
+        const entries: ContactSheetEntry[] = results.map((row) => ({
+          model: row.model,
+          title: row.title,
+          status: row.status,
+          elapsed_ms: row.elapsed_ms,
+          images: row.downloads.length > 0 ? row.downloads.map((item) => item.path) : row.image_urls,
+          error: row.error?.message ?? null
+        }));
+        contactSheet = await writeContactSheet(input.html_path, input.prompt, entries);
+      }
+
+      const tableLines = [
+        "| Model | Status | Time | Images / Error |",
+        "| --- | --- | --- | --- |",
+        ...results.map(
+          (row) =>
+            `| ${row.model} | ${row.status} | ${(row.elapsed_ms / 1000).toFixed(1)}s | ` +
+            `${row.image_urls.length > 0 ? row.image_urls.join("<br>") : (row.error?.message ?? "")} |`
+        )
+      ];
+      if (contactSheet) {
+        tableLines.push("", `Contact sheet: ${contactSheet}`);
+      }
+
+      return {
+        content: [{ type: "text", text: tableLines.join("\n") }],
+        structuredContent: {
+          prompt: input.prompt,
+          results,
+          contact_sheet: contactSheet,
+          retries: client.retryCount
+        }
+      };
+    })
+  );
+
+  server.registerTool(
+    "krea_list_presets",
+    {
+      title: "List Krea presets",
+      description:
+        "Lists the named presets and prompt templates from the project config (krea.config.json) " +
+        "that krea_generate_image and krea_upscale_image accept via preset and template.",
+      inputSchema: {}
+    },
+    handleToolErrors(async () => {
+      const config = await loadProjectConfig();
+      const presets = Object.entries(config.presets).map(([name, preset]) => {
+        const generate = preset.generate ?? {};
+        const promptParts = [generate.prompt_prefix, generate.prompt_suffix]
+          .concat(typeof generate.template === "string" ? [config.templates[generate.template] ?? ""] : [])
+          .filter((part): part is string => typeof part === "string");
+        return {
+          name,
+          description: preset.description ?? null,
+          generate: preset.generate ?? null,
+          upscale: preset.upscale ?? null,
+          variables: templateVariables(promptParts.join(" ")).filter((variable) => variable !== "prompt")
+        };
+      });
+      const templates = Object.entries(config.templates).map(([name, text]) => ({
+        name,
+        text,
+        variables: templateVariables(text).filter((variable) => variable !== "prompt")
+      }));
+
+      const summaryLines = [`Config: ${config.path ?? "none"}`];
+      for (const preset of presets) {
+        summaryLines.push(`Preset ${preset.name}${preset.description ? `: ${preset.description}` : ""}`);
+      }
+      for (const template of templates) {
+        summaryLines.push(`Template ${template.name}: ${template.text}`);
+      }
+
+      return {
+        content: [{ type: "text", text: summaryLines.join("\n") }],
+        structuredContent: { config_path: config.path, presets, templates }
+      };
+    })
+  );
+
+  server.registerTool(
+    "krea_list_styles",
+    {
+      title: "List Krea styles",
+      description: "Lists the account's custom styles (LoRAs) with the ids krea_generate_image accepts in styles.",
+      inputSchema: {
+        limit: z.number().int().min(1).max(100).optional(),
+        cursor: z.string().optional().describe("next_cursor from a previous call.")
+      }
+    },
+    handleToolErrors(async (input: { limit?: number; cursor?: string }, extra: ToolExtra) => {
+      const client = KreaClient.fromEnv();
+      const response = await client.listStyles(input, extra.signal);
+      const styles = pickStyles(response).map(summarizeStyle);
+      const nextCursor = readString(response, "next_cursor") ?? readString(response, "nextCursor");
+
+      const summaryLines = styles.map((style) => `${style.id} ${style.name ?? "(unnamed)"} ${style.status ?? ""}`.trim());
+      if (summaryLines.length === 0) {
+        summaryLines.push("No styles found.");
+      }
+      if (nextCursor) {
+        summaryLines.push(`More styles available; pass cursor: ${nextCursor}`);
+      }
+
+      return {
+        content: [{ type: "text", text: summaryLines.join("\n") }],
+        structuredContent: { styles, next_cursor: nextCursor ?? null, response }
+      };
+    })
+  );
+
+  server.registerTool(
+    "krea_train_style",
+    {
+      title: "Train Krea style",
+      description:
+        "Creates and trains a custom style (LoRA) from image URLs or local files. Training runs as a Krea job; " +
+        "check it with krea_get_job or krea_wait_for_job and read the style id from the finished job.",
+      inputSchema: {
+        name: z.string().min(1),
+        images: z.array(IMAGE_SOURCE_SCHEMA).min(1).max(100).describe("Training images: URLs, local paths or data URIs."),
+        type: z.enum(STYLE_TYPES).optional().describe("What the style captures. Defaults to Krea's default."),
+        base_model: z.string().optional().describe("Base model to train on, e.g. flux_dev."),
+        trigger_word: z.string().optional(),
+        max_train_steps: z.number().int().positive().optional(),
+        wait_for_completion: z.boolean().optional().describe("Poll until training finishes. Defaults to false."),
+        poll_interval_ms: VIDEO_INPUT_SCHEMA.poll_interval_ms,
+        timeout_ms: z
+          .number()
+          .int()
+          .min(5000)
+          .max(3600000)
+          .optional()
+          .describe(`Defaults to ${DEFAULT_STYLE_TRAINING_TIMEOUT_MS}.`)
+      }
+    },
+    handleToolErrors(async (
+      input: {
+        name: string;
+        images: string[];
+        type?: (typeof STYLE_TYPES)[number];
+        base_model?: string;
+        trigger_word?: string;
+        max_train_steps?: number;
+        wait_for_completion?: boolean;
+        poll_interval_ms?: number;
+        timeout_ms?: number;
+      },
+      extra: ToolExtra
+    ) => {
+      assertNotDryRun("krea_train_style");
+      const client = KreaClient.fromEnv();
+      const urls: string[] = [];
+      for (const source of input.images) {
+        urls.push(await assetUploader.resolve(client, source));
+      }
+      const payload: Record<string, unknown> = withoutUndefined({
+        name: input.name,
+        urls,
+        type: input.type,
+        model: input.base_model,
+        trigger_word: input.trigger_word,
+        max_train_steps: input.max_train_steps
+      });
+
+      const createResponse = await client.trainStyle(await withCallback(payload));
+      const createJob = pickJob(createResponse);
+      const jobId = readString(createJob, "id") ?? readString(createJob, "job_id");
+      if (!jobId) {
+        throw unexpectedResponse(`Krea response does not include job id. Response: ${stringifyUnknown(createResponse)}`);
+      }
+
+      await jobStore.recordCreated({
+        job_id: jobId,
+        kind: "style",
+        model: input.base_model ?? "style",
+        endpoint: "/styles/train",
+        payload_sent: payload,
+        status: normalizeStatus(readString(createJob, "status"))
+      });
+
+      if (input.wait_for_completion !== true) {
+        const status = normalizeStatus(readString(createJob, "status"));
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Style training job ${jobId} created with status: ${status}. Check it with krea_wait_for_job.`
+            }
+          ],
+          structuredContent: {
+            name: input.name,
+            payload_sent: payload,
+            job_id: jobId,
+            status,
+            style_id: null,
+            wait_for_completion: false,
+            create_response: createResponse,
+            retries: client.retryCount
+          }
+        };
+      }
+
+      const finalJobResult = await waitForJobCompletion(client, jobId, {
+        initialJob: createJob,
+        expectCallback: true,
+        pollIntervalMs: input.poll_interval_ms ?? DEFAULT_VIDEO_POLL_INTERVAL_MS,
+        timeoutMs: input.timeout_ms ?? DEFAULT_STYLE_TRAINING_TIMEOUT_MS,
+        signal: extra.signal,
+        onPoll: progressReporter(extra)
+      });
+      const status = normalizeStatus(readString(finalJobResult.job, "status"));
+      const styleId = readStyleId(finalJobResult.job);
+      const error = readUnknown(finalJobResult.job, "error");
+
+      const summaryLines = [`Job ID: ${jobId}`, `Status: ${status}`];
+      if (styleId) {
+        summaryLines.push(`Style ID: ${styleId}`);
+      }
+      if (error) {
+        summaryLines.push(`Error: ${stringifyUnknown(error)}`);
+      }
+
+      return {
+        content: [{ type: "text", text: summaryLines.join("\n") }],
+        structuredContent: {
+          name: input.name,
+          payload_sent: payload,
+          job_id: jobId,
+          status,
+          style_id: styleId ?? null,
+          error,
+          final_job: finalJobResult.job,
+          final_job_response: finalJobResult.rawResponse,
+          retries: client.retryCount
+        }
+      };
+    })
+  );
+
+  server.registerTool(
+    "krea_delete_style",
+    {
+      title: "Delete Krea style",
+      description: "Deletes a custom style from the account.",
+      inputSchema: {
+        style_id: z.string().min(1).describe("Style id from krea_list_styles.")
+      }
+    },
+    handleToolErrors(async (input: { style_id: string }) => {
+      assertNotDryRun("krea_delete_style");
+      const client = KreaClient.fromEnv();
+      const response = await client.deleteStyle(input.style_id);
+      return {
+        content: [{ type: "text", text: `Deleted style ${input.style_id}.` }],
+        structuredContent: { style_id: input.style_id, deleted: true, response }
+      };
+    })
+  );
+
+  server.registerTool(
+    "krea_get_job",
+    {
+      title: "Get Krea job status",
+      description:
+        "Fetches the current status, image URLs and error of a Krea job, e.g. one created with wait_for_completion=false.",
+      inputSchema: {
+        job_id: z.string().min(1).describe("Job id returned by krea_generate_image or krea_upscale_image.")
+      }
+    },
+    handleToolErrors(async (input: { job_id: string }, extra: ToolExtra) => {
+      const client = KreaClient.fromEnv();
+      const rawResponse = await client.getJob(input.job_id, extra.signal);
+      const job = pickJob(rawResponse);
+      await recordJobStatus(input.job_id, job);
+
+      return formatJobResult(input.job_id, { job, rawResponse }, client.retryCount);
+    }, { failedJobIsError: false })
+  );
+
+  server.registerTool(
+    "krea_wait_for_job",
+    {
+      title: "Wait for Krea job",
+      description: "Polls a Krea job until it reaches a terminal status or the timeout passes.",
+      inputSchema: {
+        job_id: z.string().min(1).describe("Job id returned by krea_generate_image or krea_upscale_image."),
+        poll_interval_ms: z.number().int().min(500).max(10000).default(DEFAULT_POLL_INTERVAL_MS),
+        timeout_ms: z.number().int().min(5000).max(600000).default(DEFAULT_TIMEOUT_MS)
+      }
+    },
+    handleToolErrors(async (input: { job_id: string; poll_interval_ms?: number; timeout_ms?: number }, extra: ToolExtra) => {
+      const client = KreaClient.fromEnv();
+      const finalJobResult = await waitForJobCompletion(client, input.job_id, {
+        initialJob: null,
+        pollIntervalMs: input.poll_interval_ms ?? DEFAULT_POLL_INTERVAL_MS,
+        timeoutMs: input.timeout_ms ?? DEFAULT_TIMEOUT_MS,
+        signal: extra.signal,
+        onPoll: progressReporter(extra)
+      });
+
+      return formatJobResult(input.job_id, finalJobResult, client.retryCount);
+    })
+  );
+
+  server.registerTool(
+    "krea_list_jobs",
+    {
+      title: "List recorded Krea jobs",
+      description:
+        "Lists jobs created by this server from the local job registry, newest first, with optional filters.",
+      inputSchema: {
+        model: z.string().optional().describe("Model key, or upscale model name such as \"Standard V2\"."),
+        status: z.string().optional().describe("Normalized job status, e.g. processing, completed, failed."),
+        since: z.string().datetime({ offset: true }).optional().describe("Only jobs created at or after this ISO time."),
+        until: z.string().datetime({ offset: true }).optional().describe("Only jobs created at or before this ISO time."),
+        limit: z.number().int().min(1).max(500).default(50)
+      }
+    },
+    handleToolErrors(async (input: {
+      model?: string;
+      status?: string;
+      since?: string;
+      until?: string;
+      limit?: number;
+    }) => {
+      const jobs = await jobStore.list({
+        ...input,
+        status: input.status !== undefined ? normalizeStatus(input.status) : undefined,
+        limit: input.limit ?? 50
+      });
+
+      const summaryLines = jobs.map(
+        (job) => `${job.created_at} ${job.job_id} ${job.kind} ${job.model} ${job.status}`
+      );
+      if (summaryLines.length === 0) {
+        summaryLines.push("No recorded jobs match the filter.");
+      }
+
+      return {
+        content: [{ type: "text", text: summaryLines.join("\n") }],
+        structuredContent: { jobs }
+      };
+    })
+  );
+
+  server.registerTool(
+    "krea_usage",
+    {
+      title: "Report Krea credit usage",
+      description:
+        "Reports estimated credits spent by jobs this server submitted, by UTC day and by model, plus the remaining daily budget.",
+      inputSchema: {
+        since: z.string().datetime({ offset: true }).optional().describe("Only jobs created at or after this ISO time."),
+        until: z.string().datetime({ offset: true }).optional().describe("Only jobs created at or before this ISO time."),
+        model: z.string().optional().describe("Model key, or upscale model name such as \"Standard V2\".")
+      }
+    },
+    handleToolErrors(async (input: { since?: string; until?: string; model?: string }) => {
+      const config = await loadProjectConfig();
+      const usage = summarizeUsage(await jobStore.list(input), config.pricing);
+      const limits = budgetLimits(config.budget);
+      const today = summarizeUsage(await jobStore.list({ since: startOfUtcDay().toISOString() }), config.pricing);
+      const budget = {
+        daily_limit: limits.daily,
+        per_call_limit: limits.perCall,
+        spent_today: today.total.credits,
+        remaining_today: limits.daily !== null ? Math.max(0, limits.daily - today.total.credits) : null
+      };
+
+      const summaryLines = [`Total: ${formatCost(usage.total)} across ${usage.total.jobs} job(s)`];
+      if (usage.by_day.length > 0) {
+        summaryLines.push("By day:", ...usage.by_day.map((day) => `- ${day.day}: ${formatCost(day)} (${day.jobs} job(s))`));
+      }
+      if (usage.by_model.length > 0) {
+        summaryLines.push(
+          "By model:",
+          ...usage.by_model.map((model) => `- ${model.model}: ${formatCost(model)} (${model.jobs} job(s))`)
+        );
+      }
+      summaryLines.push(
+        `Today: ${formatCredits(budget.spent_today)} credits spent` +
+          (budget.daily_limit !== null
+            ? `, ${formatCredits(budget.remaining_today ?? 0)} of ${formatCredits(budget.daily_limit)} remaining`
+            : ", no daily limit")
+      );
+
+      return {
+        content: [{ type: "text", text: summaryLines.join("\n") }],
+        structuredContent: { ...usage, budget }
+      };
+    })
+  );
+}
+
+/**
+ * Validates, submits and optionally waits for one upscale job.
+ */
+async function upscaleImage(args: UpscaleArgs, context: JobContext): Promise<ToolResult> {
+  const rawInput = await applyUpscalePreset(args);
+  await checkOutputPaths(rawInput);
+  const input: UpscaleInput = {
+    ...rawInput,
+    mode: rawInput.mode ?? "standard",
+    wait_for_completion: rawInput.wait_for_completion ?? true,
+    poll_interval_ms: rawInput.poll_interval_ms ?? DEFAULT_POLL_INTERVAL_MS,
+    timeout_ms: rawInput.timeout_ms ?? DEFAULT_TIMEOUT_MS
+  };
+
+  const { client } = context;
+  const dryRun = isDryRun(input);
+  const target = await resolveUpscaleSize(input, context.signal);
+  const { endpoint, mode, normalizedModel, payload } = buildUpscaleRequest({
+    ...input,
+    ...target.size,
+    image_url: dryRun ? input.image_url : await assetUploader.resolve(client, input.image_url)
+  });
+
+  const config = await loadProjectConfig();
+  const cost = estimateUpscaleCost(config.pricing, mode, payload);
+  const remapped: Record<string, string> = {};
+  if (input.batch_size !== undefined) {
+    remapped.batch_size = "batchSize";
+  }
+  for (const name of ["scale", "max_long_edge"] as const) {
+    if (input[name] !== undefined) {
+      remapped[name] = "width, height";
+    }
+  }
+  const request = {
+    mode,
+    model: normalizedModel,
+    source_size: target.source,
+    endpoint,
+    payload_sent: payload,
+    estimated_cost: cost,
+    dropped_fields: [],
+    remapped_fields: remapped
+  };
+
+  if (dryRun) {
+    return dryRunResult({
+      ...request,
+      ...emptyJobFields(true, input.wait_for_completion ?? true),
+      warnings: [
+        ...target.warnings,
+        ...localSourceWarnings({ image_url: input.image_url }),
+        ...(await budgetWarnings(config, cost))
+      ]
+    });
+  }
+  const { createResponse, createJob, jobId } = await submitJob(
+    config,
+    cost,
+    async () => client.generateImage(endpoint, await withCallback(payload)),
+    { kind: "upscale", model: normalizedModel, mode, endpoint, payload_sent: payload },
+    context.budget
+  );
+
+  if (!input.wait_for_completion) {
+    const initialStatus = normalizeStatus(readString(createJob, "status"));
+    const output: UpscaleOutput = {
+      ...request,
+      ...emptyJobFields(false, false),
+      job_id: jobId,
+      status: initialStatus,
+      job: createJob,
+      job_response: createResponse,
+      warnings: target.warnings,
+      retries: client.retryCount
+    };
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: [
+            `Upscale job ${jobId} created with status: ${initialStatus}.`,
+            ...formatUpscaleSize(target.source, payload),
+            ...formatWarnings(target.warnings)
+          ].join("\n")
+        }
+      ],
+      structuredContent: output
+    };
+  }
+
+  const pollIntervalMs = input.poll_interval_ms ?? DEFAULT_POLL_INTERVAL_MS;
+  const timeoutMs = input.timeout_ms ?? DEFAULT_TIMEOUT_MS;
+  const finalJobResult = await waitForJobCompletion(client, jobId, {
+    initialJob: createJob,
+    expectCallback: true,
+    pollIntervalMs,
+    timeoutMs,
+    signal: context.signal,
+    cancelOnAbort: true,
+    onPoll: context.onPoll
+  });
+
+  const imageUrls = extractHttpUrls(readUnknown(finalJobResult.job, "result"));
+  const status = normalizeStatus(readString(finalJobResult.job, "status"));
+  const error = readUnknown(finalJobResult.job, "error");
+
+  const summaryLines = [
+    `Mode: ${mode}`,
+    `Model: ${normalizedModel}`,
+    `Endpoint: ${endpoint}`,
+    ...formatUpscaleSize(target.source, payload),
+    `Job ID: ${jobId}`,
+    `Status: ${status}`,
+    `Estimated cost: ${formatCost(cost)}`
+  ];
+  if (imageUrls.length > 0) {
+    summaryLines.push(`Images: ${imageUrls.join(", ")}`);
+  }
+  if (error) {
+    summaryLines.push(`Error: ${stringifyUnknown(error)}`);
+  }
+
+  const saved = await maybeDownloadImages(input, jobId, imageUrls);
+  if (saved && saved.downloads.length > 0) {
+    summaryLines.push(`Saved: ${saved.downloads.map((item) => item.path).join(", ")}`);
+  }
+  const warnings = [...target.warnings, ...downloadWarnings(saved)];
+  summaryLines.push(...formatWarnings(warnings));
+
+  const output: UpscaleOutput = {
+    ...request,
+    dry_run: false,
+    wait_for_completion: true,
+    job_id: jobId,
+    status,
+    images: describeImages(
+      imageUrls,
+      { width: payload.width, height: payload.height, format: input.output_format },
+      saved?.downloads ?? []
+    ),
+    image_urls: imageUrls,
+    downloads: saved?.downloads ?? [],
+    error: error ?? null,
+    job: finalJobResult.job,
+    job_response: finalJobResult.rawResponse,
+    warnings,
+    retries: client.retryCount
+  };
+
+  return {
+    content: [{ type: "text", text: summaryLines.join("\n") }, ...(saved?.content ?? [])],
+    structuredContent: output
+  };
+}
+
+/**
+ * Works out the upscale output size. Explicit width and height pass through;
+ * otherwise the source size is read from the image header and scaled by
+ * `scale`, capped by `max_long_edge` and clamped to the mode's limit, keeping
+ * the aspect ratio. A single explicit side is kept as given, so it is rejected
+ * when the other side would exceed the limit.
+ */
+async function resolveUpscaleSize(
+  input: UpscaleInput,
+  signal?: AbortSignal
+): Promise<{ size: { width: number; height: number }; source: ImageSize | null; warnings: string[] }> {
+  checkUpscaleSizeFields(input);
+  if (input.width !== undefined && input.height !== undefined) {
+    return { size: { width: input.width, height: input.height }, source: null, warnings: [] };
+  }
+
+  const source = await probeImageSize(input.image_url, signal);
+  return { ...scaleUpscaleSize(input, source), source };
+}
+
+function checkUpscaleSizeFields(input: Omit<UpscaleInput, "image_url">): void {
+  const explicit = input.width !== undefined || input.height !== undefined;
+  if (explicit && (input.scale !== undefined || input.max_long_edge !== undefined)) {
+    throw invalidInput("Pass width and height, or scale / max_long_edge, not both.", "scale");
+  }
+  if (!explicit && input.scale === undefined && input.max_long_edge === undefined) {
+    throw invalidInput("Pass width and height, or scale / max_long_edge.", "width");
+  }
+}
+
+/** The output size for a source of known size; see resolveUpscaleSize. */
+function scaleUpscaleSize(
+  input: Omit<UpscaleInput, "image_url">,
+  source: { width: number; height: number }
+): { size: { width: number; height: number }; warnings: string[] } {
+  const longEdge = Math.max(source.width, source.height);
+  let factor: number;
+  if (input.width !== undefined) {
+    factor = input.width / source.width;
+  } else if (input.height !== undefined) {
+    factor = input.height / source.height;
+  } else {
+    factor = input.scale ?? Infinity;
+    if (input.max_long_edge !== undefined) {
+      factor = Math.min(factor, input.max_long_edge / longEdge);
+    }
+  }
+
+  const warnings: string[] = [];
+  const limit = upscaleLimit(input.mode ?? "standard");
+  if (longEdge * factor > limit) {
+    const side = input.width !== undefined ? "width" : input.height !== undefined ? "height" : undefined;
+    if (side) {
+      const largest = Math.floor(((side === "width" ? source.width : source.height) * limit) / longEdge);
+      throw invalidInput(
+        `${side} ${input[side]} would need ${Math.round(source.width * factor)}x${Math.round(source.height * factor)} ` +
+          `to keep the aspect ratio of the ${source.width}x${source.height} source, over the ${limit}px limit of ` +
+          `${input.mode ?? "standard"} mode. Use ${side} ${largest} or less.`,
+        side
+      );
+    }
+    factor = limit / longEdge;
+    warnings.push(`Target size was clamped to the ${limit}px limit of ${input.mode ?? "standard"} mode.`);
+  }
+
+  return {
+    size: {
+      width: input.width ?? Math.max(1, Math.min(limit, Math.round(source.width * factor))),
+      height: input.height ?? Math.max(1, Math.min(limit, Math.round(source.height * factor)))
+    },
+    warnings
+  };
+}
+
+function upscaleLimit(mode: UpscaleMode): number {
+  return mode === "bloom" ? 10000 : 32000;
+}
+
+function formatUpscaleSize(source: ImageSize | null, payload: Record<string, unknown>): string[] {
+  const target = `${payload.width}x${payload.height}`;
+  return [source ? `Size: ${source.width}x${source.height} ${source.format} -> ${target}` : `Size: ${target}`];
+}
+
+/**
+ * Validates, submits and optionally waits for one generation job. Shared by
+ * krea_generate_image and the batch tool.
+ */
+async function generateImage(args: GenerateArgs, context: JobContext): Promise<ToolResult> {
+  const rawInput = await applyGeneratePreset(args);
+  await checkOutputPaths(rawInput);
+  const input: GenerateInput = {
+    ...rawInput,
+    wait_for_completion: rawInput.wait_for_completion ?? true,
+    poll_interval_ms: rawInput.poll_interval_ms ?? DEFAULT_POLL_INTERVAL_MS,
+    timeout_ms: rawInput.timeout_ms ?? DEFAULT_TIMEOUT_MS
+  };
+
+  const model = IMAGE_MODELS[input.model];
+  const warnings = validateInputByModel(input, model);
+
+  const { client } = context;
+  const dryRun = isDryRun(input);
+  // A dry run leaves local images in place rather than uploading them.
+  const payload = buildPayload(dryRun ? input : await resolveImageSources(client, input), model);
+  const dimensions = describeDimensions(input, model);
+
+  const config = await loadProjectConfig();
+  const cost = estimateGenerateCost(config.pricing, input.model, payload);
+  const fields = describeFieldChanges(input, model);
+  const request = {
+    model: input.model,
+    dimensions,
+    endpoint: model.endpoint,
+    payload_sent: payload,
+    estimated_cost: cost,
+    dropped_fields: fields.dropped,
+    remapped_fields: fields.remapped
+  };
+  const imageDetails = {
+    width: dimensions.resolved.width,
+    height: dimensions.resolved.height,
+    format: undefined
+  };
+
+  if (dryRun) {
+    return dryRunResult({
+      ...request,
+      ...emptyJobFields(true, input.wait_for_completion ?? true),
+      warnings: [...warnings, ...localSourceWarnings(input), ...(await budgetWarnings(config, cost))]
+    });
+  }
+  const { createResponse, createJob, jobId } = await submitJob(
+    config,
+    cost,
+    async () => client.generateImage(model.endpoint, await withCallback(payload)),
+    { kind: "generate", model: input.model, endpoint: model.endpoint, payload_sent: payload },
+    context.budget
+  );
+
+  if (!input.wait_for_completion) {
+    const initialStatus = normalizeStatus(readString(createJob, "status"));
+    const output: GenerateOutput = {
+      ...request,
+      ...emptyJobFields(false, false),
+      job_id: jobId,
+      status: initialStatus,
+      job: createJob,
+      job_response: createResponse,
+      warnings,
+      retries: client.retryCount
+    };
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: [
+            `Job ${jobId} created with status: ${initialStatus}.`,
+            ...formatDimensions(dimensions),
+            ...formatWarnings(warnings)
+          ].join("\n")
+        }
+      ],
+      structuredContent: output
+    };
+  }
+
+  const pollIntervalMs = input.poll_interval_ms ?? DEFAULT_POLL_INTERVAL_MS;
+  const timeoutMs = input.timeout_ms ?? DEFAULT_TIMEOUT_MS;
+
+  const finalJobResult = await waitForJobCompletion(client, jobId, {
+    initialJob: createJob,
+    expectCallback: true,
+    pollIntervalMs,
+    timeoutMs,
+    signal: context.signal,
+    cancelOnAbort: true,
+    onPoll: context.onPoll
+  });
+
+  const imageUrls = extractHttpUrls(readUnknown(finalJobResult.job, "result"));
+  const status = normalizeStatus(readString(finalJobResult.job, "status"));
+  const error = readUnknown(finalJobResult.job, "error");
+
+  const summaryLines = [
+    `Model: ${input.model} (${model.title})`,
+    `Endpoint: ${model.endpoint}`,
+    ...formatDimensions(dimensions),
+    `Job ID: ${jobId}`,
+    `Status: ${status}`,
+    `Estimated cost: ${formatCost(cost)}`
+  ];
+  if (imageUrls.length > 0) {
+    summaryLines.push(`Images: ${imageUrls.join(", ")}`);
+  }
+  if (error) {
+    summaryLines.push(`Error: ${stringifyUnknown(error)}`);
+  }
+
+  const saved = await maybeDownloadImages(input, jobId, imageUrls);
+  if (saved && saved.downloads.length > 0) {
+    summaryLines.push(`Saved: ${saved.downloads.map((item) => item.path).join(", ")}`);
+  }
+  warnings.push(...downloadWarnings(saved));
+  summaryLines.push(...formatWarnings(warnings));
+
+  const output: GenerateOutput = {
+    ...request,
+    dry_run: false,
+    wait_for_completion: true,
+    job_id: jobId,
+    status,
+    images: describeImages(imageUrls, imageDetails, saved?.downloads ?? []),
+    image_urls: imageUrls,
+    downloads: saved?.downloads ?? [],
+    error: error ?? null,
+    job: finalJobResult.job,
+    job_response: finalJobResult.rawResponse,
+    warnings,
+    retries: client.retryCount
+  };
+
+  return {
+    content: [{ type: "text", text: summaryLines.join("\n") }, ...(saved?.content ?? [])],
+    structuredContent: output
+  };
+}
+
+/** Job fields before any job result is known: a dry run, or a job created without waiting. */
+function emptyJobFields(
+  dryRun: boolean,
+  waitForCompletion: boolean
+): Pick<
+  GenerateOutput,
+  "dry_run" | "wait_for_completion" | "job_id" | "status" | "images" | "image_urls" | "downloads" | "error" | "job" | "job_response" | "retries"
+> {
+  return {
+    dry_run: dryRun,
+    wait_for_completion: waitForCompletion,
+    job_id: null,
+    status: "dry_run",
+    images: [],
+    image_urls: [],
+    downloads: [],
+    error: null,
+    job: null,
+    job_response: null,
+    retries: 0
+  };
+}
+
+/**
+ * Lists output images with whatever is known about them: the requested size,
+ * and the format from the download, the requested output format or the URL.
+ */
+function describeImages(
+  urls: string[],
+  details: { width: unknown; height: unknown; format: string | undefined },
+  downloads: DownloadedImage[]
+): ImageOutput[] {
+  return urls.map((url, index) => {
+    const download = downloads.find((item) => item.index === index);
+    return {
+      index,
+      url,
+      width: typeof details.width === "number" ? details.width : null,
+      height: typeof details.height === "number" ? details.height : null,
+      format: normalizeImageFormat(download?.content_type) ?? normalizeImageFormat(details.format) ?? formatFromUrl(url),
+      path: download?.path ?? null
+    };
+  });
+}
+
+function normalizeImageFormat(value: string | undefined): string | null {
+  const format = value?.toLowerCase().replace(/^image\//, "");
+  if (format === "jpg" || format === "jpeg") {
+    return "jpeg";
+  }
+  return format === "png" || format === "webp" ? format : null;
+}
+
+function formatFromUrl(url: string): string | null {
+  try {
+    const extension = path.extname(new URL(url).pathname).slice(1);
+    return normalizeImageFormat(extension);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Returns errors, and jobs that ended in `failed`, as `isError` results with
+ * a stable code, a retryable flag and a suggested fix. krea_get_job reports a
+ * failed status as a normal result, since reporting status is its purpose.
+ */
+function handleToolErrors<A extends unknown[]>(
+  handler: (...args: A) => ToolResult | Promise<ToolResult>,
+  options: { failedJobIsError?: boolean } = {}
+): (...args: A) => Promise<CallToolResult> {
+  return async (...args) => {
+    let result: ToolResult;
+    try {
+      result = await handler(...args);
+    } catch (error) {
+      return toolErrorResult(classifyError(error));
+    }
+
+    const jobId = readString(result.structuredContent, "job_id");
+    if (options.failedJobIsError !== false && jobId && readString(result.structuredContent, "status") === "failed") {
+      return toolErrorResult(classifyJobFailure(jobId, readUnknown(result.structuredContent, "error")), result);
+    }
+    return result;
+  };
+}
+
+function toolErrorResult(details: ErrorDetails, result?: ToolResult): CallToolResult {
+  const lines = [`Error (${details.code}): ${details.message}`];
+  if (details.field) {
+    lines.push(`Field: ${details.field}`);
+  }
+  if (details.suggestion) {
+    lines.push(`Suggestion: ${details.suggestion}`);
+  }
+  lines.push(`Retryable: ${details.retryable ? "yes" : "no"}`);
+  if (details.job_id) {
+    lines.push(`Job ID: ${details.job_id}`);
+  }
+
+  return {
+    isError: true,
+    content: [{ type: "text", text: lines.join("\n") }, ...(result?.content ?? [])],
+    structuredContent: {
+      error: details,
+      ...(result ? { result: result.structuredContent } : {})
+    }
+  };
+}
+
+function registerResources(server: McpServer): void {
+  server.registerResource(
+    "krea_models",
+    "krea://models",
+    {
+      title: "Krea image models",
+      description: "Supported image models with their required fields and parameters.",
+      mimeType: "application/json"
+    },
+    async (uri) => ({
+      contents: [{ uri: uri.href, mimeType: "application/json", text: JSON.stringify(describeImageModels(), null, 2) }]
+    })
+  );
+
+  server.registerResource(
+    "krea_job",
+    new ResourceTemplate("krea://jobs/{id}", {
+      list: async () => {
+        const jobs = await jobStore.list({ limit: RESOURCE_LIST_LIMIT });
+        return {
+          resources: jobs.map((job) => ({
+            uri: `krea://jobs/${encodeURIComponent(job.job_id)}`,
+            name: `${job.kind} ${job.model} ${job.job_id}`,
+            description: `${job.status}, created ${job.created_at}`,
+            mimeType: "application/json"
+          }))
+        };
+      },
+      complete: { id: completeJobId }
+    }),
+    {
+      title: "Krea job",
+      description: "A job recorded by this server, as stored in the job registry.",
+      mimeType: "application/json"
+    },
+    async (uri, variables) => {
+      const job = await requireRecordedJob(variables.id);
+      return { contents: [{ uri: uri.href, mimeType: "application/json", text: JSON.stringify(job, null, 2) }] };
+    }
+  );
+
+  server.registerResource(
+    "krea_job_image",
+    new ResourceTemplate("krea://jobs/{id}/images/{n}", {
+      list: async () => {
+        const jobs = await jobStore.list({ status: "completed", limit: RESOURCE_LIST_LIMIT });
+        return {
+          resources: jobs.flatMap((job) =>
+            job.image_urls.map((_, index) => ({
+              uri: `krea://jobs/${encodeURIComponent(job.job_id)}/images/${index}`,
+              name: `${job.model} ${job.job_id} #${index}`
+            }))
+          )
+        };
+      },
+      complete: { id: completeJobId }
+    }),
+    {
+      title: "Krea job image",
+      description: "Bytes of the n-th output of a finished job, fetched from Krea's URL."
+    },
+    async (uri, variables) => {
+      const job = await requireRecordedJob(variables.id);
+      const index = Number(String(variables.n));
+      const url = Number.isInteger(index) ? job.image_urls[index] : undefined;
+      if (!url) {
+        throw new Error(`Job ${job.job_id} has no output #${String(variables.n)}; it has ${job.image_urls.length}.`);
+      }
+      const { bytes, contentType } = await fetchImage(url);
+      return { contents: [{ uri: uri.href, mimeType: contentType, blob: bytes.toString("base64") }] };
+    }
+  );
+}
+
+function describeImageModels(): ModelDescription[] {
+  return IMAGE_MODEL_KEYS.map((key) => {
+    const model = IMAGE_MODELS[key];
+    return {
+      key,
+      title: model.title,
+      endpoint: model.endpoint,
+      required_fields: [...model.requiredFields],
+      parameters: describeParameters(model.parameters),
+      allowed_sizes: model.allowedSizes ? [...model.allowedSizes] : null,
+      notes: model.notes ?? null
+    };
+  });
+}
+
+async function requireRecordedJob(id: string | string[]): Promise<JobRecord> {
+  const jobId = decodeURIComponent(String(id));
+  const job = await jobStore.get(jobId);
+  if (!job) {
+    throw new Error(`Job ${jobId} is not in the local job registry.`);
+  }
+  return job;
+}
+
+async function completeJobId(value: string): Promise<string[]> {
+  const jobs = await jobStore.list({ limit: RESOURCE_LIST_LIMIT });
+  return jobs.map((job) => job.job_id).filter((jobId) => jobId.startsWith(value));
+}
+
+/**
+ * Runs generation to completion, then upscales the chosen outputs in parallel.
+ * An upscale that fails or throws falls back to the generated image.
+ */
+async function generateAndUpscale(input: PipelineInput, context: JobContext): Promise<ToolResult> {
+  assertNotDryRun("krea_generate_and_upscale");
+  await checkOutputPaths(input);
+  const { upscaleSpec, budget } = await checkPipeline(input, context);
+  try {
+    return await runPipeline(input, upscaleSpec, { ...context, budget });
+  } finally {
+    await budget.release();
+  }
+}
+
+async function runPipeline(
+  input: PipelineInput,
+  upscaleSpec: Omit<UpscaleInput, "image_url">,
+  context: JobContext
+): Promise<ToolResult> {
+  const generated = await generateImage({ ...input.generate, wait_for_completion: true }, context);
+  const generateOutput = generated.structuredContent;
+  const generatedUrls = readUnknown(generateOutput, "image_urls") as string[];
+  if (readString(generateOutput, "status") !== "completed" || generatedUrls.length === 0) {
+    const jobId = readString(generateOutput, "job_id") ?? "";
+    const jobError = readUnknown(generateOutput, "error");
+    throw new KreaToolError({
+      ...classifyJobFailure(jobId, jobError),
+      message:
+        `Generation job ${jobId} ended with status ${readString(generateOutput, "status")} ` +
+        `and no images to upscale. Error: ${stringifyUnknown(jobError)}`
+    });
+  }
+
+  const indexes = input.upscale_outputs === "all" ? generatedUrls.map((_, index) => index) : (input.upscale_outputs ?? [0]);
+  const outOfRange = indexes.filter((index) => index >= generatedUrls.length);
+  if (outOfRange.length > 0) {
+    throw invalidInput(
+      `upscale_outputs ${outOfRange.join(", ")} out of range; generation returned ${generatedUrls.length} image(s).`,
+      "upscale_outputs"
+    );
+  }
+
+  const download = { download: input.download, output_dir: input.output_dir, inline_max_bytes: input.inline_max_bytes };
+  const upscales = await Promise.all(
+    indexes.map(async (index): Promise<PipelineUpscaleResult> => {
+      const sourceUrl = generatedUrls[index];
+      try {
+        const upscaled = await upscaleImage(
+          { ...upscaleSpec, ...download, image_url: sourceUrl, wait_for_completion: true },
+          context
+        );
+        const ok = readString(upscaled.structuredContent, "status") === "completed";
+        return {
+          index,
+          source_url: sourceUrl,
+          ok,
+          result: upscaled.structuredContent,
+          error: outputError(upscaled.structuredContent),
+          images: upscaled.content.filter((block): block is ImageContent => block.type === "image")
+        };
+      } catch (error) {
+        return { index, source_url: sourceUrl, ok: false, error: classifyError(error) };
+      }
+    })
+  );
+
+  // Keep the generated image for every output whose upscale did not produce one.
+  const finalUrls = upscales.flatMap((entry) => {
+    const upscaledUrls = entry.ok ? (readUnknown(entry.result, "image_urls") as string[]) : [];
+    return upscaledUrls.length > 0 ? upscaledUrls : [entry.source_url];
+  });
+  const generateJobId = readString(generateOutput, "job_id") ?? "";
+  const fallbackUrls = upscales.filter((entry) => !entry.ok).map((entry) => entry.source_url);
+  const savedFallbacks = await maybeDownloadImages(input, generateJobId, fallbackUrls);
+
+  const succeeded = upscales.filter((entry) => entry.ok).length;
+  const summaryLines = [
+    `Generate job ${generateJobId}: ${generatedUrls.join(", ")}`,
+    `Upscales: ${succeeded}/${upscales.length} succeeded`
+  ];
+  for (const entry of upscales) {
+    if (entry.ok) {
+      const urls = readUnknown(entry.result, "image_urls") as string[];
+      summaryLines.push(`[${entry.index}] ${readString(entry.result, "job_id")}: ${urls.join(", ")}`);
+    } else {
+      const reason = entry.error?.message ?? readString(entry.result, "status");
+      summaryLines.push(`[${entry.index}] upscale failed, keeping ${entry.source_url}: ${reason}`);
+    }
+  }
+  if (savedFallbacks && savedFallbacks.downloads.length > 0) {
+    summaryLines.push(`Saved: ${savedFallbacks.downloads.map((item) => item.path).join(", ")}`);
+  }
+  const warnings = downloadWarnings(savedFallbacks);
+  summaryLines.push(...formatWarnings(warnings));
+
+  return {
+    content: [
+      { type: "text", text: summaryLines.join("\n") },
+      ...upscales.flatMap((entry) => entry.images ?? []),
+      ...(savedFallbacks?.content ?? [])
+    ],
+    structuredContent: {
+      generate: generateOutput,
+      upscales: upscales.map(({ images: _images, ...entry }) => entry),
+      image_urls: finalUrls,
+      succeeded,
+      failed: upscales.length - succeeded,
+      downloads: savedFallbacks?.downloads ?? [],
+      warnings,
+      retries: context.client.retryCount
+    }
+  };
+}
+
+/**
+ * Checks both stages before the generation is submitted: the generate spec
+ * through a dry run, the upscale preset, size and mode options, and the budget
+ * for the generation plus every planned upscale, which stays reserved for the
+ * pipeline's jobs. Returns the upscale spec with its preset applied.
+ */
+async function checkPipeline(
+  input: PipelineInput,
+  context: JobContext
+): Promise<{ upscaleSpec: Omit<UpscaleInput, "image_url">; budget: BudgetReservation }> {
+  const generatePlan = (await generateImage({ ...input.generate, dry_run: true }, context))
+    .structuredContent as GenerateOutput;
+
+  const { image_url: _source, ...upscaleSpec } = await applyUpscalePreset({
+    ...input.upscale,
+    image_url: PIPELINE_SOURCE_PLACEHOLDER
+  });
+  const mode = upscaleSpec.mode ?? "standard";
+  checkUpscaleSizeFields(upscaleSpec);
+
+  // Without an explicit size, the upscale size is known only when the generate
+  // size is; otherwise the checks run on a placeholder size.
+  const { width, height } = generatePlan.dimensions.resolved;
+  const size =
+    upscaleSpec.width !== undefined && upscaleSpec.height !== undefined
+      ? { width: upscaleSpec.width, height: upscaleSpec.height }
+      : typeof width === "number" && typeof height === "number"
+        ? scaleUpscaleSize({ ...upscaleSpec, mode }, { width, height }).size
+        : undefined;
+  const { payload } = buildUpscaleRequest({
+    ...upscaleSpec,
+    mode,
+    width: size?.width ?? 1,
+    height: size?.height ?? 1,
+    image_url: PIPELINE_SOURCE_PLACEHOLDER
+  });
+
+  const config = await loadProjectConfig();
+  const upscaleCount =
+    input.upscale_outputs === "all" ? readBatchSize(generatePlan.payload_sent) : (input.upscale_outputs ?? [0]).length;
+  const upscaleCost = estimateUpscaleCost(config.pricing, mode, payload);
+  const budget = await reserveBudget(
+    config,
+    generatePlan.estimated_cost,
+    ...Array<CostEstimate>(upscaleCount).fill(upscaleCost)
+  );
+  return { upscaleSpec, budget };
+}
+
+/**
+ * Validates, submits and optionally waits for one video job.
+ */
+async function generateVideo(input: VideoInput, context: JobContext): Promise<ToolResult> {
+  assertNotDryRun("krea_generate_video");
+  if (input.wait_for_completion === false && (input.download === true || input.output_dir !== undefined)) {
+    throw invalidInput(
+      "download and output_dir require wait_for_completion: true.",
+      input.download === true ? "download" : "output_dir"
+    );
+  }
+  await checkOutputPaths(input);
+  const model: VideoModelDefinition = KREA_VIDEO_MODELS[input.model];
+  const { values, warnings } = resolveVideoValues(input, model);
+
+  const { client } = context;
+  for (const name of ["start_image", "end_image"] as const) {
+    if (typeof values[name] === "string") {
+      values[name] = await assetUploader.resolve(client, values[name]);
+    }
+  }
+  const payload: Record<string, unknown> = { prompt: input.prompt };
+  for (const name of VIDEO_PARAMETERS) {
+    const spec = model.parameters[name];
+    if (spec && values[name] !== undefined) {
+      payload[spec.wireName] = values[name];
+    }
+  }
+
+  const config = await loadProjectConfig();
+  const cost = estimateVideoCost(config.pricing, input.model, input.duration ?? model.durations[0]);
+  const { createResponse, createJob, jobId } = await submitJob(
+    config,
+    cost,
+    async () => client.generateImage(model.endpoint, await withCallback(payload)),
+    { kind: "video", model: input.model, endpoint: model.endpoint, payload_sent: payload },
+    context.budget
+  );
+
+  if (input.wait_for_completion === false) {
+    const initialStatus = normalizeStatus(readString(createJob, "status"));
+    return {
+      content: [
+        {
+          type: "text",
+          text: [`Video job ${jobId} created with status: ${initialStatus}.`, ...formatWarnings(warnings)].join("\n")
+        }
+      ],
+      structuredContent: {
+        model: input.model,
+        endpoint: model.endpoint,
+        payload_sent: payload,
+        estimated_cost: cost,
+        job_id: jobId,
+        status: initialStatus,
+        wait_for_completion: false,
+        create_response: createResponse,
+        warnings,
+        retries: client.retryCount
+      }
+    };
+  }
+
+  const finalJobResult = await waitForJobCompletion(client, jobId, {
+    initialJob: createJob,
+    expectCallback: true,
+    pollIntervalMs: input.poll_interval_ms ?? DEFAULT_VIDEO_POLL_INTERVAL_MS,
+    timeoutMs: input.timeout_ms ?? DEFAULT_VIDEO_TIMEOUT_MS,
+    signal: context.signal,
+    cancelOnAbort: true,
+    onPoll: context.onPoll
+  });
+
+  const videoUrls = extractHttpUrls(readUnknown(finalJobResult.job, "result"));
+  const status = normalizeStatus(readString(finalJobResult.job, "status"));
+  const error = readUnknown(finalJobResult.job, "error");
+
+  const summaryLines = [
+    `Model: ${input.model} (${model.title})`,
+    `Endpoint: ${model.endpoint}`,
+    `Job ID: ${jobId}`,
+    `Status: ${status}`,
+    `Estimated cost: ${formatCost(cost)}`
+  ];
+  if (videoUrls.length > 0) {
+    summaryLines.push(`Videos: ${videoUrls.join(", ")}`);
+  }
+  if (error) {
+    summaryLines.push(`Error: ${stringifyUnknown(error)}`);
+  }
+
+  const saved =
+    (input.download === true || input.output_dir !== undefined) && videoUrls.length > 0
+      ? await downloadImages(videoUrls, {
+          jobId,
+          outputDir: input.output_dir ?? path.join(defaultDataDir(), "videos"),
+          inlineMaxBytes: 0
+        })
+      : undefined;
+  if (saved && saved.downloads.length > 0) {
+    summaryLines.push(`Saved: ${saved.downloads.map((item) => item.path).join(", ")}`);
+  }
+  warnings.push(...downloadWarnings(saved));
+  summaryLines.push(...formatWarnings(warnings));
+
+  return {
+    content: [{ type: "text", text: summaryLines.join("\n") }],
+    structuredContent: {
+      model: input.model,
+      endpoint: model.endpoint,
+      payload_sent: payload,
+      estimated_cost: cost,
+      job_id: jobId,
+      status,
+      video_urls: videoUrls,
+      downloads: saved?.downloads ?? [],
+      error,
+      final_job: finalJobResult.job,
+      final_job_response: finalJobResult.rawResponse,
+      warnings,
+      retries: client.retryCount
+    }
+  };
+}
+
+/**
+ * Checks a video request against the model and returns the values to send,
+ * with unsupported parameters dropped (or rejected in strict mode) and the
+ * aspect ratio mapped onto the model's accepted values.
+ */
+function resolveVideoValues(
+  input: VideoInput,
+  model: VideoModelDefinition
+): { values: Partial<Record<VideoParameter, unknown>>; warnings: string[] } {
+  if (model.requiredFields.includes("startImage") && input.start_image === undefined) {
+    throw invalidInput(
+      `Missing required fields for model ${input.model}: start_image. ` +
+        `Model requires: ${describeRequiredFields(model.requiredFields)}`,
+      "start_image"
+    );
+  }
+
+  const errors: { field: string; message: string }[] = [];
+  const warnings: string[] = [];
+  const values: Partial<Record<VideoParameter, unknown>> = {};
+  for (const name of VIDEO_PARAMETERS) {
+    const spec = model.parameters[name];
+    const value = input[name];
+    if (value === undefined) {
+      continue;
+    }
+    if (!spec) {
+      if (input.strict) {
+        errors.push({ field: name, message: `${name} is not supported by model ${input.model}.` });
+      } else {
+        warnings.push(`${name} is not supported by model ${input.model} and was dropped.`);
+      }
+      continue;
+    }
+    values[name] = value;
+  }
+
+  if (values.duration !== undefined && !model.durations.includes(values.duration as number)) {
+    errors.push({
+      field: "duration",
+      message: `duration must be one of ${model.durations.join(", ")} seconds for model ${input.model}.`
+    });
+  }
+  if (typeof values.aspect_ratio === "string") {
+    const match = matchAspectRatio(values.aspect_ratio, model.parameters.aspect_ratio?.values);
+    values.aspect_ratio = match.value;
+    warnings.push(...match.warnings);
+  }
+  const resolutions = model.parameters.resolution?.values;
+  if (typeof values.resolution === "string" && resolutions && !resolutions.includes(values.resolution)) {
+    errors.push({
+      field: "resolution",
+      message: `resolution must be one of ${resolutions.join(", ")} for model ${input.model}.`
+    });
+  }
+  if (typeof values.seed === "number" && model.parameters.seed?.min !== undefined && values.seed < model.parameters.seed.min) {
+    errors.push({
+      field: "seed",
+      message: `seed must be at least ${model.parameters.seed.min} for model ${input.model}.`
+    });
+  }
+
+  if (errors.length > 0) {
+    throw invalidFields(errors);
+  }
+  return { values, warnings };
+}
+
+/**
+ * Splits the shared compare options into those the model accepts and the
+ * names of those it would drop.
+ */
+function pickSupportedOptions(
+  input: CompareInput,
+  model: ModelDefinition
+): { accepted: Partial<Pick<GenerateInput, CompareOptionKey>>; omitted: string[] } {
+  const accepted: Partial<Pick<GenerateInput, CompareOptionKey>> = {};
+  const omitted: string[] = [];
+  for (const key of COMPARE_OPTION_KEYS) {
+    if (input[key] === undefined) {
+      continue;
+    }
+    const supported =
+      key === "size"
+        ? Boolean(model.parameters.width && model.parameters.height)
+        : key === "aspect_ratio"
+          ? supportsAspectRatio(model)
+          : key === "megapixels" || key === "long_edge"
+            ? supportsSizeTarget(model)
+            : Boolean(model.parameters[key]);
+    if (supported) {
+      Object.assign(accepted, { [key]: input[key] });
+    } else {
+      omitted.push(key);
+    }
+  }
+  return { accepted, omitted };
+}
+
+/**
+ * Runs worker over items with at most `limit` calls in flight and returns the
+ * results in input order. Items not yet started are skipped once signal aborts.
+ */
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<R>,
+  signal?: AbortSignal
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const run = async () => {
+    while (next < items.length) {
+      signal?.throwIfAborted();
+      const index = next;
+      next += 1;
+      results[index] = await worker(items[index], index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, run));
+  return results;
+}
+
+function formatJobResult(
+  jobId: string,
+  jobResult: { job: Record<string, unknown>; rawResponse: unknown },
+  retries: number
+): {
+  content: { type: "text"; text: string }[];
+  structuredContent: Record<string, unknown>;
+} {
+  const imageUrls = extractHttpUrls(readUnknown(jobResult.job, "result"));
+  const status = normalizeStatus(readString(jobResult.job, "status"));
+  const error = readUnknown(jobResult.job, "error");
+
+  const summaryLines = [`Job ID: ${jobId}`, `Status: ${status}`];
+  if (imageUrls.length > 0) {
+    summaryLines.push(`Images: ${imageUrls.join(", ")}`);
+  }
+  if (error) {
+    summaryLines.push(`Error: ${stringifyUnknown(error)}`);
+  }
+
+  const output = {
+    job_id: jobId,
+    status,
+    terminal: isTerminalStatus(status),
+    image_urls: imageUrls,
+    error,
+    job: jobResult.job,
+    job_response: jobResult.rawResponse,
+    retries
+  };
+
+  return {
+    content: [{ type: "text", text: summaryLines.join("\n") }],
+    structuredContent: output
+  };
+}
+
+async function waitForJobCompletion(
+  client: KreaClient,
+  jobId: string,
+  options: {
+    initialJob: unknown;
+    pollIntervalMs: number;
+    timeoutMs: number;
+    signal?: AbortSignal;
+    /** Cancel the remote Krea job when the signal aborts, not just stop polling. */
+    cancelOnAbort?: boolean;
+    /** The job was created with the webhook callback URL, so wait for it before polling. */
+    expectCallback?: boolean;
+    onPoll?: PollListener;
+  }
+): Promise<{ job: Record<string, unknown>; rawResponse: unknown }> {
+  const initialJob = asObject(options.initialJob) ?? {};
+  const initialStatus = normalizeStatus(readString(initialJob, "status"));
+  if (isTerminalStatus(initialStatus)) {
+    await recordJobStatus(jobId, initialJob);
+    return { job: initialJob, rawResponse: { job: initialJob } };
+  }
+
+  const deadline = Date.now() + options.timeoutMs;
+  // With a webhook receiver, polls only happen after a quiet spell: the grace
+  // period after creation or a callback, the poll interval after a poll.
+  let waitMs = webhookReceiver && options.expectCallback ? webhookReceiver.graceMs : 0;
+  try {
+    while (Date.now() < deadline) {
+      const event = webhookReceiver
+        ? await webhookReceiver.nextEvent(jobId, Math.max(0, Math.min(waitMs, deadline - Date.now())), options.signal)
+        : undefined;
+      const rawResponse = event ?? (await client.getJob(jobId, options.signal));
+      const job = pickJob(rawResponse);
+      await recordJobStatus(jobId, job);
+      const status = normalizeStatus(readString(job, "status"));
+      await options.onPoll?.(jobId, job, status);
+      if (isTerminalStatus(status)) {
+        return { job, rawResponse };
+      }
+      if (webhookReceiver) {
+        waitMs = event ? webhookReceiver.graceMs : options.pollIntervalMs;
+      } else {
+        await sleep(options.pollIntervalMs, options.signal);
+      }
+    }
+  } catch (error) {
+    if (!options.signal?.aborted) {
+      throw error;
+    }
+    if (options.cancelOnAbort) {
+      await cancelRemoteJob(client, jobId);
+    }
+    throw new KreaToolError({
+      code: "cancelled",
+      message: options.cancelOnAbort
+        ? `Polling for job ${jobId} was cancelled by the client; the Krea job was cancelled too.`
+        : `Polling for job ${jobId} was cancelled by the client.`,
+      retryable: false,
+      job_id: jobId
+    });
+  }
+
+  throw new KreaToolError({
+    code: "timeout",
+    message: `Job ${jobId} did not reach a terminal status within ${options.timeoutMs}ms.`,
+    retryable: true,
+    suggestion:
+      `The job keeps running on Krea. Resume with krea_wait_for_job using job_id "${jobId}", ` +
+      "or raise timeout_ms.",
+    job_id: jobId
+  });
+}
+
+/**
+ * Merges the named preset under the explicit arguments, expands the prompt
+ * template and re-validates the result against the tool schema.
+ */
+async function applyGeneratePreset(args: GenerateArgs): Promise<GenerateInput> {
+  const { preset: presetName, template, variables, ...explicit } = args;
+  if (presetName === undefined && template === undefined && variables === undefined) {
+    return requireModel(explicit);
+  }
+
+  const config = await loadProjectConfig();
+  const preset = presetName !== undefined ? requirePreset(config, presetName).generate ?? {} : {};
+  const {
+    template: presetTemplate,
+    prompt_prefix: prefix,
+    prompt_suffix: suffix,
+    ...presetFields
+  } = preset as Record<string, unknown> & { template?: string; prompt_prefix?: string; prompt_suffix?: string };
+
+  const merged = { ...presetFields, ...withoutUndefined(explicit) };
+  merged.prompt = expandPrompt(
+    explicit.prompt,
+    { template: template ?? presetTemplate, prefix, suffix, variables },
+    config.templates
+  );
+
+  const parsed = z.strictObject(GENERATE_INPUT_SCHEMA).safeParse(merged);
+  if (!parsed.success) {
+    throw invalidInput(`Preset "${presetName}" produced invalid input:\n${z.prettifyError(parsed.error)}`, "preset");
+  }
+  return requireModel(parsed.data as Omit<GenerateArgs, "preset" | "template" | "variables">);
+}
+
+function withoutUndefined<T extends object>(value: T): Partial<T> {
+  return Object.fromEntries(Object.entries(value).filter(([, entry]) => entry !== undefined)) as Partial<T>;
+}
+
+function requireModel(input: Omit<GenerateArgs, "preset" | "template" | "variables">): GenerateInput {
+  if (input.model === undefined) {
+    throw invalidInput("model is required unless the preset sets one.", "model");
+  }
+  return { ...input, model: input.model };
+}
+
+async function applyUpscalePreset(args: UpscaleArgs): Promise<UpscaleInput> {
+  const { preset: presetName, ...explicit } = args;
+  if (presetName === undefined) {
+    return explicit;
+  }
+
+  const config = await loadProjectConfig();
+  const merged = { ...(requirePreset(config, presetName).upscale ?? {}), ...withoutUndefined(explicit) };
+  const parsed = z.strictObject(UPSCALE_INPUT_SCHEMA).safeParse(merged);
+  if (!parsed.success) {
+    throw invalidInput(`Preset "${presetName}" produced invalid input:\n${z.prettifyError(parsed.error)}`, "preset");
+  }
+  const { preset: _preset, ...input } = parsed.data;
+  return input;
+}
+
+/**
+ * Replaces local file paths and data URIs in the image inputs with uploaded
+ * asset URLs so the payload only carries URLs Krea can fetch.
+ */
+async function resolveImageSources(client: KreaClient, input: GenerateInput): Promise<GenerateInput> {
+  const resolved: GenerateInput = { ...input };
+  if (input.reference_image !== undefined) {
+    resolved.reference_image = await assetUploader.resolve(client, input.reference_image);
+  }
+  if (input.reference_images !== undefined) {
+    resolved.reference_images = [];
+    for (const source of input.reference_images) {
+      resolved.reference_images.push(await assetUploader.resolve(client, source));
+    }
+  }
+  if (input.image_url !== undefined) {
+    resolved.image_url = await assetUploader.resolve(client, input.image_url);
+  }
+  return resolved;
+}
+
+/** Rejects output paths outside KREA_DATA_DIR in HTTP mode before any job is submitted. */
+async function checkOutputPaths(input: { output_dir?: string; html_path?: string }): Promise<void> {
+  if (input.output_dir !== undefined) {
+    await resolveLocalPath(input.output_dir, "output_dir");
+  }
+  if (input.html_path !== undefined) {
+    await resolveLocalPath(input.html_path, "html_path");
+  }
+}
+
+async function maybeDownloadImages(
+  input: DownloadInput,
+  jobId: string,
+  imageUrls: string[]
+): Promise<{ downloads: DownloadedImage[]; content: ImageContent[]; failures: DownloadFailure[] } | undefined> {
+  const enabled = input.download === true || input.output_dir !== undefined;
+  if (!enabled || imageUrls.length === 0) {
+    return undefined;
+  }
+
+  return downloadImages(imageUrls, {
+    jobId,
+    outputDir: input.output_dir ?? path.join(defaultDataDir(), "images"),
+    inlineMaxBytes: input.inline_max_bytes ?? DEFAULT_INLINE_IMAGE_MAX_BYTES
+  });
+}
+
+/**
+ * A generate result counts as a success when the job completed, or when it was
+ * submitted without waiting (or as a dry run) and has not ended.
+ */
+function generateSucceeded(output: Record<string, unknown>): boolean {
+  const status = readString(output, "status") ?? "unknown";
+  if (status === "completed" || status === "dry_run") {
+    return true;
+  }
+  return readUnknown(output, "wait_for_completion") === false && !isTerminalStatus(status);
+}
+
+/** Classifies the job error carried by a tool output, for per-item results. */
+function outputError(output: Record<string, unknown>): ErrorDetails | undefined {
+  const error = readUnknown(output, "error");
+  return error ? classifyJobFailure(readString(output, "job_id") ?? "", error) : undefined;
+}
+
+/** A failed download is reported but keeps the result of a job that already completed. */
+function downloadWarnings(saved: { failures: DownloadFailure[] } | undefined): string[] {
+  return (saved?.failures ?? []).map((failure) => `Could not download output #${failure.index}: ${failure.error}`);
+}
+
+async function cancelRemoteJob(client: KreaClient, jobId: string): Promise<void> {
+  try {
+    await client.cancelJob(jobId);
+    await jobStore.recordStatus(jobId, { status: "cancelled", imageUrls: [], error: null });
+  } catch (error) {
+    console.error(`Failed to cancel job ${jobId}: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Sends `notifications/progress` on every poll when the caller supplied a
+ * progress token. Progress counts polls; the message carries the job status
+ * and any percentage Krea reports.
+ */
+function progressReporter(extra: ToolExtra): PollListener | undefined {
+  const progressToken = extra._meta?.progressToken;
+  if (progressToken === undefined) {
+    return undefined;
+  }
+
+  let polls = 0;
+  return async (jobId, job, status) => {
+    polls += 1;
+    const percent = readProgressPercent(job);
+    const message =
+      percent !== undefined ? `Job ${jobId}: ${status} (${percent}%)` : `Job ${jobId}: ${status}`;
+    await extra.sendNotification({
+      method: "notifications/progress",
+      params: { progressToken, progress: polls, message }
+    });
+  };
+}
+
+async function recordJobStatus(jobId: string, job: Record<string, unknown>): Promise<JobRecord | undefined> {
+  return jobStore.recordStatus(jobId, {
+    status: normalizeStatus(readString(job, "status")),
+    imageUrls: extractHttpUrls(readUnknown(job, "result")),
+    error: readUnknown(job, "error")
+  });
+}
+
+/**
+ * Checks the budget, submits the job and records it in the job registry. The
+ * job's credits stay reserved from the check until it is recorded (or the
+ * submission fails), so concurrent calls count each other's spend. A job of a
+ * call that reserved its budget up front draws on that reservation instead.
+ */
+async function submitJob(
+  config: ProjectConfig,
+  cost: CostEstimate,
+  submit: () => Promise<unknown>,
+  record: Omit<Parameters<JobStore["recordCreated"]>[0], "job_id" | "credits" | "status">,
+  budget?: BudgetReservation
+): Promise<{ createResponse: unknown; createJob: Record<string, unknown>; jobId: string }> {
+  const reservation = budget ?? (await reserveBudget(config, cost));
+  try {
+    const createResponse = await submit();
+    const createJob = pickJob(createResponse);
+    const jobId = readString(createJob, "id") ?? readString(createJob, "job_id");
+    if (!jobId) {
+      throw unexpectedResponse(`Krea response does not include job id. Response: ${stringifyUnknown(createResponse)}`);
+    }
+
+    await withBudgetLock(async () => {
+      await jobStore.recordCreated({
+        ...record,
+        job_id: jobId,
+        credits: cost.credits,
+        status: normalizeStatus(readString(createJob, "status"))
+      });
+      reservation.settle(cost.credits);
+    });
+    return { createResponse, createJob, jobId };
+  } finally {
+    if (!budget) {
+      await reservation.release();
+    }
+  }
+}
+
+/**
+ * Checks the budget for the jobs and reserves their cost under the budget
+ * lock. Credits move from the reservation to the registry as each job is
+ * recorded, so a concurrent check sees them either as reserved or as spent.
+ */
+async function reserveBudget(config: ProjectConfig, ...costs: CostEstimate[]): Promise<BudgetReservation> {
+  const limits = budgetLimits(config.budget);
+  if (limits.daily === null && limits.perCall === null) {
+    return { settle: () => {}, release: async () => {} };
+  }
+  return withBudgetLock(async () => {
+    checkCosts(limits, costs, (await spentToday()) + reservedCredits);
+    let remaining = costs.reduce((sum, cost) => sum + cost.credits, 0);
+    reservedCredits += remaining;
+    const settle = (credits: number) => {
+      const amount = Math.min(credits, remaining);
+      remaining -= amount;
+      reservedCredits -= amount;
+    };
+    return { settle, release: () => withBudgetLock(async () => settle(remaining)) };
+  });
+}
+
+/** Checks the per-call limit for each job and the daily limit for all of them together. */
+async function enforceBudget(config: ProjectConfig, ...costs: CostEstimate[]): Promise<void> {
+  const limits = budgetLimits(config.budget);
+  if (limits.daily === null && limits.perCall === null) {
+    return;
+  }
+  checkCosts(limits, costs, (await spentToday()) + reservedCredits);
+}
+
+function checkCosts(limits: BudgetLimits, costs: CostEstimate[], spent: number): void {
+  for (const cost of costs) {
+    checkBudget({ ...limits, daily: null }, cost.credits, 0);
+  }
+  const total = costs.reduce((sum, cost) => sum + cost.credits, 0);
+  checkBudget({ ...limits, perCall: null }, total, spent);
+}
+
+async function spentToday(): Promise<number> {
+  const today = await jobStore.list({ since: startOfUtcDay().toISOString() });
+  return today.reduce((sum, job) => sum + (job.credits ?? 0), 0);
+}
+
+function withBudgetLock<T>(task: () => Promise<T>): Promise<T> {
+  const run = budgetLock.then(task);
+  budgetLock = run.then(
+    () => undefined,
+    () => undefined
+  );
+  return run;
+}
+
+/** True when the call asks for a dry run or the server runs with `KREA_DRY_RUN` set. */
+function isDryRun(input: { dry_run?: boolean }): boolean {
+  const env = process.env[DRY_RUN_ENV]?.trim().toLowerCase();
+  return input.dry_run === true || env === "1" || env === "true";
+}
+
+/** Jobs that cannot be previewed refuse to run while the server is in dry-run mode. */
+function assertNotDryRun(tool: string): void {
+  if (isDryRun({})) {
+    throw new KreaToolError({
+      code: "validation_failed",
+      message: `${DRY_RUN_ENV} is set, and ${tool} has no dry-run mode; nothing was submitted.`,
+      retryable: false,
+      suggestion: `Unset ${DRY_RUN_ENV} to submit real jobs.`
+    });
+  }
+}
+
+function dryRunResult(output: GenerateOutput | UpscaleOutput): ToolResult {
+  const remapped = Object.entries(output.remapped_fields).map(([field, wire]) => `${field} -> ${wire}`);
+  const summaryLines = [
+    "Dry run: nothing was submitted to Krea.",
+    ...("mode" in output ? [`Mode: ${output.mode}`] : []),
+    `Model: ${output.model}`,
+    `Endpoint: ${output.endpoint}`,
+    `Estimated cost: ${formatCost(output.estimated_cost)}`,
+    ...(output.dropped_fields.length > 0 ? [`Dropped: ${output.dropped_fields.join(", ")}`] : []),
+    ...(remapped.length > 0 ? [`Remapped: ${remapped.join(", ")}`] : []),
+    ...formatWarnings(output.warnings),
+    `Payload: ${JSON.stringify(output.payload_sent)}`
+  ];
+  return {
+    content: [{ type: "text", text: summaryLines.join("\n") }],
+    structuredContent: output
+  };
+}
+
+function localSourceWarnings(input: Pick<GenerateInput, "reference_image" | "reference_images" | "image_url">): string[] {
+  const sources = [
+    ["reference_image", input.reference_image],
+    ...(input.reference_images ?? []).map((source, index) => [`reference_images[${index}]`, source]),
+    ["image_url", input.image_url]
+  ] as const;
+  return sources
+    .filter(([, source]) => source !== undefined && !isRemoteUrl(source))
+    .map(([field]) => `${field} is a local image; it is uploaded as a Krea asset when the job is submitted.`);
+}
+
+/** The refusal enforceBudget would raise, as a warning for dry runs. */
+async function budgetWarnings(config: ProjectConfig, cost: CostEstimate): Promise<string[]> {
+  try {
+    await enforceBudget(config, cost);
+    return [];
+  } catch (error) {
+    return [(error as Error).message];
+  }
+}
+
+/** Adds the webhook callback URL to a job-creating payload when webhook mode is on. */
+async function withCallback(payload: Record<string, unknown>): Promise<Record<string, unknown>> {
+  if (!webhookReceiver) {
+    return payload;
+  }
+  return { ...payload, [WEBHOOK_PAYLOAD_FIELD]: await webhookReceiver.callbackUrl() };
+}
+
+function formatCost(cost: CostEstimate): string {
+  return `${formatCredits(cost.credits)} credits${cost.usd !== null ? ` ($${cost.usd})` : ""}`;
+}
+
+/**
+ * Picks up jobs that were still running when the server last stopped and keeps
+ * polling them in the background so their results land in the job registry.
+ */
+export async function resumePendingJobs(): Promise<void> {
+  const pending = await jobStore.listPending();
+  if (pending.length === 0) {
+    return;
+  }
+
+  let client: KreaClient;
+  try {
+    client = KreaClient.fromEnv();
+  } catch (error) {
+    console.error(`Skipping resume of ${pending.length} pending job(s): ${(error as Error).message}`);
+    return;
+  }
+  if (!client.hasApiKey) {
+    console.error(`Skipping resume of ${pending.length} pending job(s): KREA_API_KEY is not set.`);
+    return;
+  }
+
+  await Promise.all(
+    pending.map(async (record) => {
+      try {
+        await waitForJobCompletion(client, record.job_id, {
+          initialJob: null,
+          pollIntervalMs: DEFAULT_POLL_INTERVAL_MS,
+          timeoutMs: RESUME_TIMEOUT_MS
+        });
+      } catch (error) {
+        console.error(`Failed to resume job ${record.job_id}: ${(error as Error).message}`);
+      }
+    })
+  );
+}
+
+/**
+ * Checks required fields, the model's parameter matrix, numeric ranges and
+ * allowed sizes. Unsupported parameters are errors in strict mode and
+ * warnings otherwise; the returned warnings list the dropped fields.
+ */
+function validateInputByModel(input: GenerateInput, model: ModelDefinition): string[] {
+  const missing: string[] = [];
+
+  for (const field of model.requiredFields) {
+    if (field === "prompt") {
+      continue;
+    }
+    if (field === "width" && input.width === undefined && model.defaultWidth === undefined) {
+      missing.push("width");
+    }
+    if (field === "height" && input.height === undefined && model.defaultHeight === undefined) {
+      missing.push("height");
+    }
+    if (field === "referenceImages" && (!input.reference_images || input.reference_images.length === 0)) {
+      missing.push("reference_images");
+    }
+    if (field === "imageUrl" && !input.image_url) {
+      missing.push("image_url");
+    }
+  }
+
+  if (missing.length > 0) {
+    throw invalidInput(
+      `Missing required fields for model ${input.model}: ${missing.join(", ")}. ` +
+        `Model requires: ${describeRequiredFields(model.requiredFields)}`,
+      missing[0]
+    );
+  }
+
+  const errors: { field: string; message: string }[] = [];
+  const warnings: string[] = [...resolveSize(model, input).warnings];
+  for (const name of unsupportedParameters(input, model)) {
+    if (input.strict) {
+      errors.push({ field: name, message: `${name} is not supported by model ${input.model}.` });
+    } else {
+      warnings.push(`${name} is not supported by model ${input.model} and was dropped.`);
+    }
+  }
+
+  const values = resolveParameterValues(input, model);
+  for (const name of GENERATE_PARAMETERS) {
+    const spec = model.parameters[name];
+    const value = values[name];
+    if (!spec || typeof value !== "number") {
+      continue;
+    }
+    if ((spec.min !== undefined && value < spec.min) || (spec.max !== undefined && value > spec.max)) {
+      errors.push({
+        field: name,
+        message: `${name} must be between ${spec.min ?? "-inf"} and ${spec.max ?? "inf"} for model ${input.model}. Received ${value}.`
+      });
+    }
+  }
+
+  if (model.allowedSizes && typeof values.width === "number" && typeof values.height === "number") {
+    const size = `${values.width}x${values.height}`;
+    if (!model.allowedSizes.includes(size)) {
+      errors.push({
+        field: input.size !== undefined ? "size" : "width",
+        message: `Size ${size} is not supported by model ${input.model}. Allowed: ${model.allowedSizes.join(", ")}.`
+      });
+    }
+  }
+
+  if (errors.length > 0) {
+    throw invalidFields(errors);
+  }
+  return warnings;
+}
+
+/** Input fields the model has no use for; they are dropped from the payload. */
+function unsupportedParameters(input: GenerateInput, model: ModelDefinition): string[] {
+  const unsupported: string[] = GENERATE_PARAMETERS.filter(
+    (name) => input[name] !== undefined && !(name === "aspect_ratio" ? supportsAspectRatio(model) : model.parameters[name])
+  );
+  if (input.size !== undefined && (!model.parameters.width || !model.parameters.height)) {
+    unsupported.push("size");
+  }
+  if (input.styles !== undefined && !model.parameters.style) {
+    unsupported.push("styles");
+  }
+  for (const name of ["megapixels", "long_edge"] as const) {
+    if (input[name] !== undefined && !supportsSizeTarget(model)) {
+      unsupported.push(name);
+    }
+  }
+  return unsupported;
+}
+
+/**
+ * Lists the input fields that are dropped, and where the others land in the
+ * payload when their wire name differs or they are resolved into width and height.
+ */
+function describeFieldChanges(
+  input: GenerateInput,
+  model: ModelDefinition
+): { dropped: string[]; remapped: Record<string, string> } {
+  const dropped = unsupportedParameters(input, model);
+  const remapped: Record<string, string> = {};
+  for (const name of GENERATE_PARAMETERS) {
+    const spec = model.parameters[name];
+    if (input[name] !== undefined && spec && spec.wireName !== name) {
+      remapped[name] = spec.wireName;
+    }
+  }
+  if (input.styles !== undefined && model.parameters.style && model.parameters.style.wireName !== "styles") {
+    remapped.styles = model.parameters.style.wireName;
+  }
+
+  const { width, height } = model.parameters;
+  for (const name of ["size", "aspect_ratio", "megapixels", "long_edge"] as const) {
+    if (input[name] === undefined || dropped.includes(name) || remapped[name] !== undefined) {
+      continue;
+    }
+    if (name === "aspect_ratio" && model.parameters.aspect_ratio) {
+      continue;
+    }
+    if (width && height) {
+      remapped[name] = `${width.wireName}, ${height.wireName}`;
+    }
+  }
+  return { dropped, remapped };
+}
+
+function buildPayload(input: GenerateInput, model: ModelDefinition): Record<string, unknown> {
+  const payload: Record<string, unknown> = {
+    ...(model.fixedPayload ?? {}),
+    prompt: input.prompt
+  };
+
+  const values = resolveParameterValues(input, model);
+  for (const name of GENERATE_PARAMETERS) {
+    const spec = model.parameters[name];
+    const value = values[name];
+    if (!spec || value === undefined) {
+      continue;
+    }
+    payload[spec.wireName] = spec.asArray ? [value] : value;
+  }
+
+  return payload;
+}
+
+/**
+ * Collects the generate parameters as they will be sent, with width, height
+ * and aspect ratio resolved from explicit values, `size`, `aspect_ratio` or
+ * the model defaults, and `style` / `styles` merged into weighted entries.
+ */
+function resolveParameterValues(
+  input: GenerateInput,
+  model: ModelDefinition
+): Partial<Record<GenerateParameter, unknown>> {
+  const values: Partial<Record<GenerateParameter, unknown>> = {};
+  for (const name of GENERATE_PARAMETERS) {
+    values[name] = input[name];
+  }
+
+  const size = resolveSize(model, input);
+  values.width = size.width;
+  values.height = size.height;
+  values.aspect_ratio = size.aspect_ratio;
+
+  const styles = [...(input.style !== undefined ? [{ id: input.style }] : []), ...(input.styles ?? [])];
+  values.style =
+    styles.length > 0
+      ? styles.map((style) => ({ id: style.id, strength: style.strength ?? DEFAULT_STYLE_STRENGTH }))
+      : undefined;
+
+  return values;
+}
+
+/**
+ * Reports the size the caller asked for next to what is sent to the model.
+ */
+function describeDimensions(
+  input: GenerateInput,
+  model: ModelDefinition
+): { requested: Record<string, unknown>; resolved: Record<string, unknown> } {
+  const values = resolveParameterValues(input, model);
+  return {
+    requested: withoutUndefined({
+      width: input.width,
+      height: input.height,
+      size: input.size,
+      aspect_ratio: input.aspect_ratio,
+      megapixels: input.megapixels,
+      long_edge: input.long_edge
+    }),
+    resolved: withoutUndefined({
+      width: model.parameters.width ? values.width : undefined,
+      height: model.parameters.height ? values.height : undefined,
+      aspect_ratio: model.parameters.aspect_ratio ? values.aspect_ratio : undefined
+    })
+  };
+}
+
+function formatDimensions(dimensions: { requested: Record<string, unknown>; resolved: Record<string, unknown> }): string[] {
+  const { width, height, aspect_ratio } = dimensions.resolved;
+  const resolved =
+    width !== undefined && height !== undefined ? `${width}x${height}` : aspect_ratio !== undefined ? String(aspect_ratio) : null;
+  if (resolved === null) {
+    return [];
+  }
+  const requested = Object.entries(dimensions.requested)
+    .map(([key, value]) => `${key}=${value}`)
+    .join(", ");
+  return [`Size: ${resolved}${requested ? ` (requested ${requested})` : ""}`];
+}
+
+function formatWarnings(warnings: string[]): string[] {
+  return warnings.map((warning) => `Warning: ${warning}`);
+}
+
+function buildUpscaleRequest(input: UpscaleInput & { width: number; height: number }): {
+  mode: UpscaleMode;
+  endpoint: string;
+  normalizedModel: string;
+  payload: Record<string, unknown>;
+} {
+  const mode = input.mode ?? "standard";
+  const endpoint =
+    mode === "standard"
+      ? "/generate/enhance/topaz/standard-enhance"
+      : mode === "generative"
+        ? "/generate/enhance/topaz/generative-enhance"
+        : "/generate/enhance/topaz/bloom-enhance";
+
+  const maxDimension = upscaleLimit(mode);
+  if (input.width > maxDimension || input.height > maxDimension) {
+    throw invalidInput(
+      `Mode ${mode} supports up to ${maxDimension}x${maxDimension}. Received ${input.width}x${input.height}.`,
+      input.width > maxDimension ? "width" : "height"
+    );
+  }
+
+  const normalizedModel = resolveUpscaleModel(mode, input.model);
+  const payload: Record<string, unknown> = {
+    width: input.width,
+    height: input.height,
+    image_url: input.image_url,
+    model: normalizedModel
+  };
+
+  if (input.batch_size !== undefined) {
+    payload.batchSize = input.batch_size;
+  }
+  if (input.seed !== undefined) {
+    payload.seed = input.seed;
+  }
+  if (input.prompt !== undefined) {
+    payload.prompt = input.prompt;
+  }
+  if (input.output_format !== undefined) {
+    payload.output_format = input.output_format;
+  }
+  if (input.crop_to_fill !== undefined) {
+    payload.crop_to_fill = input.crop_to_fill;
+  }
+  if (input.upscaling_activated !== undefined) {
+    payload.upscaling_activated = input.upscaling_activated;
+  }
+  if (input.image_scaling_factor !== undefined) {
+    payload.image_scaling_factor = input.image_scaling_factor;
+  }
+  if (input.sharpen !== undefined) {
+    if (mode === "bloom") {
+      throw invalidInput("sharpen is not supported in bloom mode.", "sharpen");
+    }
+    payload.sharpen = input.sharpen;
+  }
+  if (input.denoise !== undefined) {
+    if (mode === "bloom") {
+      throw invalidInput("denoise is not supported in bloom mode.", "denoise");
+    }
+    payload.denoise = input.denoise;
+  }
+  if (input.subject_detection !== undefined) {
+    if (mode === "bloom") {
+      throw invalidInput("subject_detection is not supported in bloom mode.", "subject_detection");
+    }
+    payload.subject_detection = input.subject_detection;
+  }
+  if (input.face_enhancement !== undefined) {
+    if (mode === "bloom") {
+      throw invalidInput("face_enhancement is not supported in bloom mode.", "face_enhancement");
+    }
+    payload.face_enhancement = input.face_enhancement;
+  }
+  if (input.face_enhancement_creativity !== undefined) {
+    if (mode === "bloom") {
+      throw invalidInput("face_enhancement_creativity is not supported in bloom mode.", "face_enhancement_creativity");
+    }
+    payload.face_enhancement_creativity = input.face_enhancement_creativity;
+  }
+  if (input.face_enhancement_strength !== undefined) {
+    if (mode === "bloom") {
+      throw invalidInput("face_enhancement_strength is not supported in bloom mode.", "face_enhancement_strength");
+    }
+    payload.face_enhancement_strength = input.face_enhancement_strength;
+  }
+  if (input.strength !== undefined) {
+    if (mode !== "standard") {
+      throw invalidInput("strength is only supported in standard mode.", "strength");
+    }
+    payload.strength = input.strength;
+  }
+  if (input.fix_compression !== undefined) {
+    if (mode !== "standard") {
+      throw invalidInput("fix_compression is only supported in standard mode.", "fix_compression");
+    }
+    payload.fix_compression = input.fix_compression;
+  }
+  if (input.texture !== undefined) {
+    if (mode !== "generative") {
+      throw invalidInput("texture is only supported in generative mode.", "texture");
+    }
+    payload.texture = input.texture;
+  }
+  if (input.detail !== undefined) {
+    if (mode !== "generative") {
+      throw invalidInput("detail is only supported in generative mode.", "detail");
+    }
+    payload.detail = input.detail;
+  }
+  if (input.creativity !== undefined) {
+    if (mode === "standard") {
+      throw invalidInput("creativity is only supported in generative or bloom mode.", "creativity");
+    }
+    if (mode === "generative" && input.creativity > 6) {
+      throw invalidInput("generative mode supports creativity from 1 to 6.", "creativity");
+    }
+    payload.creativity = input.creativity;
+  }
+  if (input.face_preservation !== undefined) {
+    if (mode !== "bloom") {
+      throw invalidInput("face_preservation is only supported in bloom mode.", "face_preservation");
+    }
+    payload.face_preservation = input.face_preservation;
+  }
+  if (input.color_preservation !== undefined) {
+    if (mode !== "bloom") {
+      throw invalidInput("color_preservation is only supported in bloom mode.", "color_preservation");
+    }
+    payload.color_preservation = input.color_preservation;
+  }
+
+  return { mode, endpoint, normalizedModel, payload };
+}
+
+function resolveUpscaleModel(mode: UpscaleMode, model: string | undefined): string {
+  if (mode === "standard") {
+    const selected = model ?? "Standard V2";
+    if (!UPSCALE_STANDARD_MODELS.includes(selected as (typeof UPSCALE_STANDARD_MODELS)[number])) {
+      throw invalidInput(`Invalid standard model "${selected}".`, "model");
+    }
+    return selected;
+  }
+
+  if (mode === "generative") {
+    const selected = model ?? "Redefine";
+    if (!UPSCALE_GENERATIVE_MODELS.includes(selected as (typeof UPSCALE_GENERATIVE_MODELS)[number])) {
+      throw invalidInput(`Invalid generative model "${selected}".`, "model");
+    }
+    return selected;
+  }
+
+  const selected = model ?? "Reimagine";
+  if (selected !== "Reimagine") {
+    throw invalidInput('Bloom mode supports only model "Reimagine".', "model");
+  }
+  return selected;
+}
+
+function pickStyles(response: unknown): Record<string, unknown>[] {
+  const list = Array.isArray(response)
+    ? response
+    : ["items", "styles", "data"].map((key) => readUnknown(response, key)).find(Array.isArray) ?? [];
+  return (list as unknown[]).flatMap((entry): Record<string, unknown>[] => {
+    const style = asObject(entry);
+    return style ? [style] : [];
+  });
+}
+
+function summarizeStyle(style: Record<string, unknown>): {
+  id: string | null;
+  name: string | null;
+  status: string | null;
+  type: string | null;
+  model: string | null;
+} {
+  return {
+    id: readString(style, "id") ?? null,
+    name: readString(style, "name") ?? null,
+    status: readString(style, "status") ?? null,
+    type: readString(style, "type") ?? null,
+    model: readString(style, "model") ?? null
+  };
+}
+
+/**
+ * Reads the trained style id from a finished training job.
+ */
+function readStyleId(job: Record<string, unknown>): string | undefined {
+  return (
+    readString(job, "result", "style_id") ??
+    readString(job, "result", "styleId") ??
+    readString(job, "result", "style", "id")
+  );
+}
+
+function pickJob(rawResponse: unknown): Record<string, unknown> {
+  if (rawResponse && typeof rawResponse === "object") {
+    const asRecord = rawResponse as Record<string, unknown>;
+    if (asRecord.job && typeof asRecord.job === "object") {
+      return asRecord.job as Record<string, unknown>;
+    }
+    return asRecord;
+  }
+  return {};
+}
+
+function readUnknown(obj: unknown, ...path: string[]): unknown {
+  let current: unknown = obj;
+  for (const key of path) {
+    if (!current || typeof current !== "object") {
+      return undefined;
+    }
+    current = (current as Record<string, unknown>)[key];
+  }
+  return current;
+}
+
+function readString(obj: unknown, ...path: string[]): string | undefined {
+  const value = readUnknown(obj, ...path);
+  return typeof value === "string" ? value : undefined;
+}
+
+function asObject(value: unknown): Record<string, unknown> | null {
+  return value && typeof value === "object" ? (value as Record<string, unknown>) : null;
+}
@@ -0,0 +1,229 @@
+import { KreaToolError } from "./errors.js";
+import type { JobRecord } from "./jobStore.js";
+import type { BudgetConfig, PricingConfig } from "./projectConfig.js";
+
+// Rough per-image prices in Krea credits. Prices change, so projects should
+// override them under `pricing` in krea.config.json.
+const DEFAULT_GENERATE_CREDITS: Record<string, number> = {
+  flux_1_dev: 5,
+  flux_kontext_dev: 15,
+  flux_kontext_max: 15,
+  flux_1_1_pro: 10,
+  flux_1_1_pro_ultra: 15,
+  nano_banana: 10,
+  nano_banana_pro: 30,
+  ideogram_2a: 8,
+  ideogram_3: 15,
+  imagen_3: 8,
+  imagen_4: 10,
+  imagen_4_fast: 5,
+  imagen_4_ultra: 15,
+  runway_gen_4_image: 20,
+  chatgpt_image_1: 30,
+  seedream_3: 8,
+  seedream_4: 10,
+  seededit_3: 10,
+  qwen_image: 5,
+  zimage: 3
+};
+const DEFAULT_GENERATE_FALLBACK_CREDITS = 10;
+
+// Upscales are priced per output megapixel, with a floor of one credit per image.
+const DEFAULT_UPSCALE_CREDITS_PER_MEGAPIXEL: Record<string, number> = {
+  standard: 1,
+  generative: 4,
+  bloom: 6
+};
+
+// Video models are priced per second of output.
+const DEFAULT_VIDEO_CREDITS_PER_SECOND: Record<string, number> = {
+  kling_2_1_master: 30,
+  kling_2_1_pro: 15,
+  veo_3: 75,
+  hailuo_02: 10,
+  runway_gen_4_turbo: 10,
+  wan_2_2: 8
+};
+const DEFAULT_VIDEO_FALLBACK_CREDITS_PER_SECOND = 20;
+
+const CREDIT_LIMIT_ENV = {
+  daily: "KREA_DAILY_CREDIT_LIMIT",
+  perCall: "KREA_CALL_CREDIT_LIMIT"
+} as const;
+
+export interface CostEstimate {
+  credits: number;
+  usd: number | null;
+}
+
+export interface BudgetLimits {
+  daily: number | null;
+  perCall: number | null;
+}
+
+export interface UsageBucket {
+  credits: number;
+  usd: number | null;
+  jobs: number;
+}
+
+export interface UsageSummary {
+  total: UsageBucket;
+  by_day: (UsageBucket & { day: string })[];
+  by_model: (UsageBucket & { model: string })[];
+}
+
+export function estimateGenerateCost(
+  pricing: PricingConfig,
+  model: string,
+  payload: Record<string, unknown>
+): CostEstimate {
+  const perImage =
+    pricing.generate?.[model] ??
+    DEFAULT_GENERATE_CREDITS[model] ??
+    pricing.generate_default ??
+    DEFAULT_GENERATE_FALLBACK_CREDITS;
+  return toEstimate(pricing, perImage * readBatchSize(payload));
+}
+
+export function estimateUpscaleCost(
+  pricing: PricingConfig,
+  mode: string,
+  payload: Record<string, unknown>
+): CostEstimate {
+  const perMegapixel =
+    pricing.upscale_per_megapixel?.[mode] ?? DEFAULT_UPSCALE_CREDITS_PER_MEGAPIXEL[mode] ?? 0;
+  const width = typeof payload.width === "number" ? payload.width : 0;
+  const height = typeof payload.height === "number" ? payload.height : 0;
+  const perImage = Math.max(1, ((width * height) / 1_000_000) * perMegapixel);
+  return toEstimate(pricing, perImage * readBatchSize(payload));
+}
+
+export function estimateVideoCost(pricing: PricingConfig, model: string, durationSeconds: number): CostEstimate {
+  const perSecond =
+    pricing.video_per_second?.[model] ??
+    DEFAULT_VIDEO_CREDITS_PER_SECOND[model] ??
+    pricing.video_per_second_default ??
+    DEFAULT_VIDEO_FALLBACK_CREDITS_PER_SECOND;
+  return toEstimate(pricing, perSecond * durationSeconds);
+}
+
+/**
+ * Limits from `KREA_DAILY_CREDIT_LIMIT` / `KREA_CALL_CREDIT_LIMIT`, falling
+ * back to `budget` in the project config. Unset means unlimited.
+ */
+export function budgetLimits(budget: BudgetConfig): BudgetLimits {
+  return {
+    daily: readNumberEnv(CREDIT_LIMIT_ENV.daily) ?? budget.daily_credits ?? null,
+    perCall: readNumberEnv(CREDIT_LIMIT_ENV.perCall) ?? budget.per_call_credits ?? null
+  };
+}
+
+/**
+ * Throws when submitting a job costing `credits` would break a limit.
+ * `spentToday` covers every job already submitted since 00:00 UTC.
+ */
+export function checkBudget(limits: BudgetLimits, credits: number, spentToday: number): void {
+  if (limits.perCall !== null && credits > limits.perCall) {
+    throw budgetExceeded(
+      `Refusing to submit: estimated cost ${formatCredits(credits)} credits exceeds the per-call limit of ${formatCredits(limits.perCall)}.`
+    );
+  }
+  if (limits.daily !== null && spentToday + credits > limits.daily) {
+    throw budgetExceeded(
+      `Refusing to submit: ${formatCredits(spentToday)} of ${formatCredits(limits.daily)} daily credits are spent and this call needs ${formatCredits(credits)} more.`
+    );
+  }
+}
+
+function budgetExceeded(message: string): KreaToolError {
+  return new KreaToolError({ code: "budget_exceeded", message, retryable: false });
+}
+
+/**
+ * Totals recorded job costs by UTC day and by model. Every submitted job
+ * counts, including ones that later failed.
+ */
+export function summarizeUsage(jobs: JobRecord[], pricing: PricingConfig): UsageSummary {
+  const total = emptyBucket();
+  const byDay = new Map<string, UsageBucket>();
+  const byModel = new Map<string, UsageBucket>();
+
+  for (const job of jobs) {
+    const credits = job.credits ?? 0;
+    const day = utcDay(job.created_at);
+    for (const bucket of [total, bucketFor(byDay, day), bucketFor(byModel, job.model)]) {
+      bucket.credits += credits;
+      bucket.jobs += 1;
+    }
+  }
+
+  const finish = (bucket: UsageBucket): UsageBucket => ({
+    credits: roundCredits(bucket.credits),
+    usd: toEstimate(pricing, bucket.credits).usd,
+    jobs: bucket.jobs
+  });
+
+  return {
+    total: finish(total),
+    by_day: [...byDay.entries()]
+      .sort(([a], [b]) => b.localeCompare(a))
+      .map(([day, bucket]) => ({ day, ...finish(bucket) })),
+    by_model: [...byModel.entries()]
+      .sort(([, a], [, b]) => b.credits - a.credits)
+      .map(([model, bucket]) => ({ model, ...finish(bucket) }))
+  };
+}
+
+export function startOfUtcDay(date: Date = new Date()): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+export function formatCredits(credits: number): string {
+  return String(roundCredits(credits));
+}
+
+function toEstimate(pricing: PricingConfig, credits: number): CostEstimate {
+  const rounded = roundCredits(credits);
+  return {
+    credits: rounded,
+    usd: pricing.usd_per_credit !== undefined ? Math.round(rounded * pricing.usd_per_credit * 10000) / 10000 : null
+  };
+}
+
+export function readBatchSize(payload: Record<string, unknown>): number {
+  return typeof payload.batchSize === "number" && payload.batchSize > 0 ? payload.batchSize : 1;
+}
+
+function roundCredits(credits: number): number {
+  return Math.round(credits * 100) / 100;
+}
+
+function utcDay(isoTime: string): string {
+  return new Date(isoTime).toISOString().slice(0, 10);
+}
+
+function emptyBucket(): UsageBucket {
+  return { credits: 0, usd: null, jobs: 0 };
+}
+
+function bucketFor(buckets: Map<string, UsageBucket>, key: string): UsageBucket {
+  let bucket = buckets.get(key);
+  if (!bucket) {
+    bucket = emptyBucket();
+    buckets.set(key, bucket);
+  }
+  return bucket;
+}
+
+function readNumberEnv(name: string): number | undefined {
+  const raw = process.env[name];
+  if (raw === undefined || raw.trim() === "") {
+    return undefined;
+  }
+  const value = Number(raw);
+  if (!Number.isFinite(value) || value < 0) {
+    throw new Error(`${name} must be a non-negative number. Received "${raw}".`);
+  }
+  return value;
+}
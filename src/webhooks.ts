@@ -0,0 +1,236 @@
+import { randomBytes, timingSafeEqual } from "node:crypto";
+import { createServer as createHttpServer, type IncomingMessage, type Server, type ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+
+const WEBHOOK_PATH = "/krea/webhook";
+const DEFAULT_WEBHOOK_HOST = "127.0.0.1";
+const DEFAULT_GRACE_MS = 30000;
+const MAX_BODY_BYTES = 1024 * 1024;
+// Events that arrive before anyone waits for the job; oldest are dropped first.
+const MAX_PENDING_EVENTS = 1000;
+
+export interface WebhookOptions {
+  host: string;
+  port: number;
+  /** Externally reachable base URL, e.g. a tunnel. Defaults to the listener address. */
+  publicUrl?: string;
+  /** Shared secret Krea must echo back as the `token` query parameter. */
+  secret: string;
+  /** How long to wait for a callback before polling `GET /jobs/{id}`. */
+  graceMs: number;
+}
+
+type EventWaiter = (event: Record<string, unknown>) => void;
+
+/**
+ * Receives job events from Krea on a local HTTP listener so waiting tool calls
+ * can skip polling. The callback URL carries the shared secret; requests
+ * without it are rejected.
+ */
+export class WebhookReceiver {
+  readonly graceMs: number;
+  private readonly options: WebhookOptions;
+  private listening?: Promise<string>;
+  private readonly waiters = new Map<string, Set<EventWaiter>>();
+  private readonly pending = new Map<string, Record<string, unknown>>();
+
+  constructor(options: WebhookOptions) {
+    this.options = options;
+    this.graceMs = options.graceMs;
+  }
+
+  /** Webhook mode is on when `KREA_WEBHOOK_PORT` is set. */
+  static fromEnv(): WebhookReceiver | undefined {
+    const rawPort = process.env.KREA_WEBHOOK_PORT;
+    if (rawPort === undefined || rawPort.trim() === "") {
+      return undefined;
+    }
+    const port = Number(rawPort);
+    if (!Number.isInteger(port) || port < 0 || port > 65535) {
+      throw new Error(`Invalid KREA_WEBHOOK_PORT "${rawPort}".`);
+    }
+    const rawGrace = process.env.KREA_WEBHOOK_GRACE_MS;
+    const graceMs = rawGrace && rawGrace.trim() !== "" ? Number(rawGrace) : DEFAULT_GRACE_MS;
+    if (!Number.isInteger(graceMs) || graceMs < 0) {
+      throw new Error("KREA_WEBHOOK_GRACE_MS must be a non-negative integer.");
+    }
+
+    return new WebhookReceiver({
+      host: process.env.KREA_WEBHOOK_HOST || DEFAULT_WEBHOOK_HOST,
+      port,
+      publicUrl: process.env.KREA_WEBHOOK_PUBLIC_URL || undefined,
+      // A per-process secret still works, but jobs created before a restart
+      // then fall back to polling.
+      secret: process.env.KREA_WEBHOOK_SECRET || randomBytes(24).toString("hex"),
+      graceMs
+    });
+  }
+
+  /** Starts the listener on first use and returns the URL Krea should call. */
+  async callbackUrl(): Promise<string> {
+    this.listening ??= this.listen();
+    const base = await this.listening;
+    const url = new URL(WEBHOOK_PATH.slice(1), base.endsWith("/") ? base : `${base}/`);
+    url.searchParams.set("token", this.options.secret);
+    return url.toString();
+  }
+
+  /**
+   * Resolves with the next event posted for the job, or undefined when none
+   * arrives within `timeoutMs`. An event that arrived earlier is returned at once.
+   */
+  nextEvent(jobId: string, timeoutMs: number, signal?: AbortSignal): Promise<Record<string, unknown> | undefined> {
+    const buffered = this.pending.get(jobId);
+    if (buffered) {
+      this.pending.delete(jobId);
+      return Promise.resolve(buffered);
+    }
+
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
+      const waiters = this.waiters.get(jobId) ?? new Set<EventWaiter>();
+      this.waiters.set(jobId, waiters);
+
+      const finish = () => {
+        clearTimeout(timer);
+        signal?.removeEventListener("abort", onAbort);
+        waiters.delete(onEvent);
+        if (waiters.size === 0) {
+          this.waiters.delete(jobId);
+        }
+      };
+      const onEvent: EventWaiter = (event) => {
+        finish();
+        resolve(event);
+      };
+      const onAbort = () => {
+        finish();
+        reject(signal?.reason);
+      };
+      const timer = setTimeout(() => {
+        finish();
+        resolve(undefined);
+      }, timeoutMs);
+
+      waiters.add(onEvent);
+      signal?.addEventListener("abort", onAbort, { once: true });
+    });
+  }
+
+  private async listen(): Promise<string> {
+    const httpServer = createHttpServer((req, res) => {
+      this.handleRequest(req, res).catch((error) => {
+        console.error(`Webhook request failed: ${error instanceof Error ? error.message : String(error)}`);
+        if (!res.headersSent) {
+          sendJson(res, 500, { error: "Internal server error" });
+        } else {
+          res.end();
+        }
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      httpServer.once("error", reject);
+      httpServer.listen(this.options.port, this.options.host, () => {
+        httpServer.off("error", reject);
+        resolve();
+      });
+    });
+    // The listener alone should not keep the process alive once the MCP transport closes.
+    httpServer.unref();
+
+    const { port } = httpServer.address() as AddressInfo;
+    const base = this.options.publicUrl ?? `http://${this.options.host}:${port}`;
+    console.error(`Krea webhook receiver listening on http://${this.options.host}:${port}${WEBHOOK_PATH}`);
+    return base;
+  }
+
+  private async handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    if (!url.pathname.endsWith(WEBHOOK_PATH)) {
+      sendJson(res, 404, { error: "Not found" });
+      return;
+    }
+    if (req.method !== "POST") {
+      res.setHeader("Allow", "POST");
+      sendJson(res, 405, { error: "Method not allowed" });
+      return;
+    }
+    if (!matchesSecret(url.searchParams.get("token"), this.options.secret)) {
+      sendJson(res, 401, { error: "Unauthorized" });
+      return;
+    }
+
+    let body: unknown;
+    try {
+      body = await readJsonBody(req);
+    } catch (error) {
+      sendJson(res, 400, { error: `Invalid request body: ${(error as Error).message}` });
+      return;
+    }
+    const jobId = readEventJobId(body);
+    if (!jobId) {
+      sendJson(res, 400, { error: "Event does not include a job id." });
+      return;
+    }
+
+    this.dispatch(jobId, body as Record<string, unknown>);
+    sendJson(res, 200, { received: true });
+  }
+
+  private dispatch(jobId: string, event: Record<string, unknown>): void {
+    const waiters = this.waiters.get(jobId);
+    if (waiters && waiters.size > 0) {
+      for (const waiter of [...waiters]) {
+        waiter(event);
+      }
+      return;
+    }
+    this.pending.delete(jobId);
+    this.pending.set(jobId, event);
+    if (this.pending.size > MAX_PENDING_EVENTS) {
+      this.pending.delete(this.pending.keys().next().value!);
+    }
+  }
+}
+
+/** Events are either the job itself or `{ job: {...} }`, as in `GET /jobs/{id}`. */
+function readEventJobId(body: unknown): string | undefined {
+  if (!body || typeof body !== "object") {
+    return undefined;
+  }
+  const record = body as Record<string, unknown>;
+  const job = record.job && typeof record.job === "object" ? (record.job as Record<string, unknown>) : record;
+  const id = job.job_id ?? job.id;
+  return typeof id === "string" && id.length > 0 ? id : undefined;
+}
+
+function matchesSecret(received: string | null, secret: string): boolean {
+  if (received === null) {
+    return false;
+  }
+  const expected = Buffer.from(secret);
+  const actual = Buffer.from(received);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_BYTES) {
+      throw new Error(`Request body exceeds ${MAX_BODY_BYTES} bytes.`);
+    }
+    chunks.push(chunk as Buffer);
+  }
+  return JSON.parse(Buffer.concat(chunks).toString("utf8"));
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
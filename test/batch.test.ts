@@ -0,0 +1,59 @@
+import assert from "node:assert/strict";
+import { after, before, test } from "node:test";
+import type { ErrorDetails } from "../src/errors.js";
+import { startTestServer, type TestServer } from "./harness.js";
+
+let server: TestServer;
+before(async () => {
+  server = await startTestServer();
+});
+after(() => server.close());
+
+test("reports a result or a classified error per item", async () => {
+  const item = (prompt: string, extra: Record<string, unknown> = {}) => ({
+    model: "flux_1_dev",
+    prompt,
+    poll_interval_ms: 500,
+    ...extra
+  });
+  // One item at a time, so the items take the recorded create responses in order.
+  const result = await server.callTool(
+    "krea_generate_batch",
+    {
+      concurrency: 1,
+      items: [
+        item("a red fox in the snow"),
+        item("a blue heron"),
+        item("a green frog"),
+        item("a grey wolf", { poll_interval_ms: 3000, timeout_ms: 5000 })
+      ]
+    },
+    "batch"
+  );
+
+  assert.ok(!result.isError);
+  const output = result.structuredContent!;
+  assert.equal(output.succeeded, 1);
+  assert.equal(output.failed, 3);
+
+  const [completed, failed, missingId, timedOut] = output.items as Array<{
+    ok: boolean;
+    result?: Record<string, unknown>;
+    error?: ErrorDetails;
+  }>;
+  assert.equal(completed.ok, true);
+  assert.equal(completed.result?.status, "completed");
+  assert.equal(completed.error, undefined);
+
+  assert.equal(failed.ok, false);
+  assert.equal(failed.result?.status, "failed");
+  assert.equal(failed.error?.code, "content_moderated");
+
+  assert.equal(missingId.ok, false);
+  assert.equal(missingId.error?.code, "upstream_error");
+  assert.match(missingId.error?.message ?? "", /does not include job id/);
+
+  assert.equal(timedOut.ok, false);
+  assert.equal(timedOut.error?.code, "timeout");
+  assert.ok(timedOut.error?.job_id);
+});
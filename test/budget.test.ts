@@ -0,0 +1,65 @@
+import assert from "node:assert/strict";
+import { after, before, test } from "node:test";
+import { errorOf, startFakeKrea, startTestServer, type FakeKrea, type TestServer } from "./harness.js";
+
+// flux_1_dev costs 5 credits per image and a 1000x1000 standard upscale 1.
+const DAILY_LIMIT = 10;
+
+let fake: FakeKrea;
+let server: TestServer;
+before(async () => {
+  fake = await startFakeKrea();
+  server = await startTestServer({
+    KREA_API_KEY: "test-api-key",
+    KREA_API_BASE_URL: fake.baseUrl,
+    KREA_DAILY_CREDIT_LIMIT: String(DAILY_LIMIT)
+  });
+});
+after(async () => {
+  await server.close();
+  await fake.close();
+});
+
+const submissions = () => fake.requests.filter((request) => request.startsWith("POST "));
+
+test("parallel submissions stop at the daily limit", async () => {
+  const generate = { model: "flux_1_dev", prompt: "a red fox in the snow", wait_for_completion: false };
+  const results = await Promise.all(
+    Array.from({ length: 4 }, () => server.callTool("krea_generate_image", generate))
+  );
+
+  assert.equal(submissions().length, 2);
+  const refused = results.filter((result) => result.isError);
+  assert.equal(refused.length, 2);
+  for (const result of refused) {
+    assert.equal(errorOf(result).code, "budget_exceeded");
+  }
+});
+
+test("a pipeline reserves its upscales before generating", async () => {
+  // The first test spent the whole limit; start from a fresh day's worth.
+  process.env.KREA_DAILY_CREDIT_LIMIT = String(DAILY_LIMIT * 2);
+  fake.requests.length = 0;
+
+  const [pipeline, generate] = await Promise.all([
+    server.callTool("krea_generate_and_upscale", {
+      generate: { model: "flux_1_dev", prompt: "a lighthouse at dusk", poll_interval_ms: 500 },
+      upscale: { mode: "standard", width: 1000, height: 1000, poll_interval_ms: 500 }
+    }),
+    server.callTool("krea_generate_image", {
+      model: "flux_1_dev",
+      prompt: "a red fox in the snow",
+      wait_for_completion: false
+    })
+  ]);
+
+  // 10 credits are left: the pipeline needs 6 and the single image 5, so one is refused
+  // and a pipeline that was admitted always gets to run its upscale.
+  const refused = [pipeline, generate].filter((result) => result.isError);
+  assert.equal(refused.length, 1);
+  assert.equal(errorOf(refused[0]).code, "budget_exceeded");
+  assert.equal(submissions().length, pipeline.isError ? 1 : 2);
+  if (!pipeline.isError) {
+    assert.equal(pipeline.structuredContent!.succeeded, 1);
+  }
+});
@@ -0,0 +1,53 @@
+import assert from "node:assert/strict";
+import { after, before, test } from "node:test";
+import type { ErrorDetails } from "../src/errors.js";
+import { startTestServer, type TestServer } from "./harness.js";
+
+type Row = { model: string; status: string; image_urls: string[]; error: ErrorDetails | null };
+
+let server: TestServer;
+before(async () => {
+  server = await startTestServer();
+});
+after(() => server.close());
+
+function rowsByModel(results: unknown): Record<string, Row> {
+  return Object.fromEntries((results as Row[]).map((row) => [row.model, row]));
+}
+
+test("reports a completed and a failed model side by side", async () => {
+  const result = await server.callTool(
+    "krea_compare_models",
+    { prompt: "a red fox in the snow", models: ["flux_1_dev", "flux_1_1_pro"], poll_interval_ms: 500 },
+    "compare-success-failure"
+  );
+
+  assert.ok(!result.isError);
+  const rows = rowsByModel(result.structuredContent!.results);
+  assert.equal(rows.flux_1_dev.status, "completed");
+  assert.equal(rows.flux_1_dev.image_urls.length, 1);
+  assert.equal(rows.flux_1_dev.error, null);
+  assert.equal(rows.flux_1_1_pro.status, "failed");
+  assert.equal(rows.flux_1_1_pro.error?.code, "content_moderated");
+});
+
+test("classifies a timeout and a missing job id per model", async () => {
+  const result = await server.callTool(
+    "krea_compare_models",
+    {
+      prompt: "a red fox in the snow",
+      models: ["flux_1_dev", "flux_1_1_pro"],
+      poll_interval_ms: 3000,
+      timeout_ms: 5000
+    },
+    "compare-timeout-missing-job-id"
+  );
+
+  assert.ok(!result.isError);
+  const rows = rowsByModel(result.structuredContent!.results);
+  assert.equal(rows.flux_1_dev.status, "error");
+  assert.equal(rows.flux_1_dev.error?.code, "timeout");
+  assert.ok(rows.flux_1_dev.error?.job_id);
+  assert.equal(rows.flux_1_1_pro.status, "error");
+  assert.equal(rows.flux_1_1_pro.error?.code, "upstream_error");
+});
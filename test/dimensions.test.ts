@@ -0,0 +1,63 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { resolveSize } from "../src/dimensions.js";
+import type { ModelDefinition } from "../src/models.js";
+
+const flux: ModelDefinition = {
+  title: "Flux",
+  endpoint: "/flux",
+  requiredFields: ["prompt"],
+  parameters: {
+    width: { wireName: "width", min: 256, max: 2368, multipleOf: 32 },
+    height: { wireName: "height", min: 256, max: 2368, multipleOf: 32 }
+  }
+};
+
+test("passes the ratio to a model with its own aspect-ratio field", () => {
+  const model: ModelDefinition = {
+    title: "Video",
+    endpoint: "/video",
+    requiredFields: ["prompt"],
+    parameters: { aspect_ratio: { wireName: "aspectRatio", values: ["16:9", "9:16", "1:1"] } }
+  };
+
+  assert.deepEqual(resolveSize(model, { aspect_ratio: "16:9" }), { aspect_ratio: "16:9", warnings: [] });
+  const closest = resolveSize(model, { aspect_ratio: "2:1" });
+  assert.equal(closest.aspect_ratio, "16:9");
+  assert.equal(closest.warnings.length, 1);
+});
+
+test("fits an aspect ratio to the megapixels target on the model's step", () => {
+  const size = resolveSize(flux, { aspect_ratio: "16:9", megapixels: 1 });
+
+  assert.deepEqual(size, { width: 1344, height: 736, warnings: [] });
+});
+
+test("fits an aspect ratio to the long_edge target and scales it into range", () => {
+  assert.deepEqual(resolveSize(flux, { aspect_ratio: "2:3", long_edge: 1536 }), {
+    width: 1024,
+    height: 1536,
+    warnings: []
+  });
+
+  const capped = resolveSize(flux, { aspect_ratio: "1:1", long_edge: 4096 });
+  assert.equal(capped.width, 2368);
+  assert.equal(capped.height, 2368);
+  assert.equal(capped.warnings.length, 1);
+});
+
+test("snaps explicit dimensions to the model's multiple", () => {
+  const size = resolveSize(flux, { width: 1000, height: 1024 });
+  assert.equal(size.width, 992);
+  assert.equal(size.height, 1024);
+  assert.deepEqual(size.warnings, ["width 1000 is not a multiple of 32 for the model; using 992."]);
+
+  const fromSize = resolveSize(flux, { size: "1030x770" });
+  assert.equal(fromSize.width, 1024);
+  assert.equal(fromSize.height, 768);
+  assert.equal(fromSize.warnings.length, 2);
+});
+
+test("leaves out-of-range dimensions for validation to reject", () => {
+  assert.deepEqual(resolveSize(flux, { width: 5000, height: 1024 }), { width: 5000, height: 1024, warnings: [] });
+});
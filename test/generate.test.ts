@@ -0,0 +1,97 @@
+import assert from "node:assert/strict";
+import { writeFileSync } from "node:fs";
+import { after, before, test } from "node:test";
+import { errorOf, startTestServer, type TestServer } from "./harness.js";
+
+const FOX = { model: "flux_1_dev", prompt: "a red fox in the snow", poll_interval_ms: 500 };
+
+let server: TestServer;
+before(async () => {
+  server = await startTestServer();
+});
+after(() => server.close());
+
+test("returns the images of a completed job", async () => {
+  const result = await server.callTool("krea_generate_image", FOX, "generate-success");
+
+  assert.ok(!result.isError);
+  const output = result.structuredContent!;
+  assert.equal(output.status, "completed");
+  assert.deepEqual(output.image_urls, [`https://gen.krea.ai/images/${output.job_id}.png`]);
+  assert.deepEqual(output.payload_sent, { prompt: "a red fox in the snow" });
+});
+
+test("reports a failed job as a classified error and keeps the output", async () => {
+  const result = await server.callTool("krea_generate_image", FOX, "generate-failure");
+
+  const error = errorOf(result);
+  assert.equal(error.code, "content_moderated");
+  assert.equal(error.retryable, false);
+  const output = result.structuredContent!.result as Record<string, unknown>;
+  assert.equal(output.status, "failed");
+  assert.equal(error.job_id, output.job_id);
+});
+
+test("times out with the job id so the job can be resumed", async () => {
+  const result = await server.callTool(
+    "krea_generate_image",
+    { ...FOX, poll_interval_ms: 3000, timeout_ms: 5000 },
+    "generate-timeout"
+  );
+
+  const error = errorOf(result);
+  assert.equal(error.code, "timeout");
+  assert.equal(error.retryable, true);
+  assert.ok(error.job_id);
+
+  const jobs = await server.callTool("krea_list_jobs", {});
+  const listed = (jobs.structuredContent!.jobs as Array<Record<string, unknown>>).find(
+    (job) => job.job_id === error.job_id
+  );
+  assert.equal(listed?.status, "processing");
+});
+
+test("rejects a create response without a job id", async () => {
+  const result = await server.callTool("krea_generate_image", FOX, "generate-missing-job-id");
+
+  const error = errorOf(result);
+  assert.equal(error.code, "upstream_error");
+  assert.match(error.message, /does not include job id/);
+  assert.equal(error.job_id, null);
+});
+
+test("names the first offending field of a rejected request", async () => {
+  const outOfRange = await server.callTool("krea_generate_image", { ...FOX, num_inference_steps: 500 });
+  assert.equal(errorOf(outOfRange).code, "validation_failed");
+  assert.equal(errorOf(outOfRange).field, "num_inference_steps");
+
+  const unsupported = await server.callTool("krea_generate_image", {
+    ...FOX,
+    negative_prompt: "blurry",
+    guidance_scale: 500,
+    strict: true
+  });
+  assert.equal(errorOf(unsupported).field, "negative_prompt");
+  assert.match(errorOf(unsupported).message, /guidance_scale must be between/);
+
+  const size = await server.callTool("krea_generate_image", { ...FOX, model: "chatgpt_image_1", size: "512x512" });
+  assert.equal(errorOf(size).field, "size");
+});
+
+test("reports misspelled preset keys instead of dropping them", async () => {
+  const writeConfig = (preset: Record<string, unknown>) =>
+    writeFileSync(process.env.KREA_CONFIG!, JSON.stringify({ presets: { fox: preset } }));
+  try {
+    writeConfig({ generate: { model: "flux_1_dev", guidence_scale: 3 } });
+    const field = errorOf(await server.callTool("krea_generate_image", { preset: "fox", prompt: FOX.prompt }));
+    assert.equal(field.code, "validation_failed");
+    assert.equal(field.field, "preset");
+    assert.match(field.message, /Unrecognized key: "guidence_scale"/);
+
+    writeConfig({ generat: { model: "flux_1_dev" } });
+    const section = errorOf(await server.callTool("krea_generate_image", { preset: "fox", prompt: FOX.prompt }));
+    assert.match(section.message, /Unrecognized key: "generat"/);
+  } finally {
+    writeFileSync(process.env.KREA_CONFIG!, "{}");
+  }
+});
@@ -0,0 +1,130 @@
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { createServer as createHttpServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import type { ErrorDetails } from "../src/errors.js";
+
+const CASSETTE_DIR = fileURLToPath(new URL("cassettes/", import.meta.url));
+
+export interface TestServer {
+  /**
+   * Calls a tool with Krea traffic replayed from `test/cassettes/<cassette>.json`.
+   * Without a cassette, requests go to the fake Krea at `KREA_API_BASE_URL`
+   * when the test passed one, and fail otherwise.
+   */
+  callTool(name: string, args: Record<string, unknown>, cassette?: string): Promise<CallToolResult>;
+  close(): Promise<void>;
+}
+
+/**
+ * Starts the server in-process with a clean environment and a temporary data
+ * directory, connected to a client over an in-memory transport. Call once per
+ * test file: the server module reads the environment when first imported.
+ * `env` adds `KREA_*` settings, e.g. webhook mode or a fake Krea base URL.
+ */
+export async function startTestServer(env: Record<string, string> = {}): Promise<TestServer> {
+  for (const name of Object.keys(process.env)) {
+    if (name.startsWith("KREA_")) {
+      delete process.env[name];
+    }
+  }
+  const dataDir = mkdtempSync(path.join(tmpdir(), "krea-ai-mcp-test-"));
+  const configPath = path.join(dataDir, "krea.config.json");
+  writeFileSync(configPath, "{}");
+  Object.assign(process.env, {
+    KREA_DATA_DIR: dataDir,
+    KREA_CONFIG: configPath,
+    KREA_MAX_RETRIES: "0",
+    ...env
+  });
+
+  const { createServer } = await import("../src/server.js");
+  const server = createServer();
+  const client = new Client({ name: "krea-ai-mcp-test", version: "0.0.0" });
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+
+  return {
+    async callTool(name, args, cassette) {
+      if (cassette || !env.KREA_API_BASE_URL) {
+        process.env.KREA_REPLAY = path.join(CASSETTE_DIR, `${cassette ?? "empty"}.json`);
+      } else {
+        delete process.env.KREA_REPLAY;
+      }
+      return (await client.callTool({ name, arguments: args })) as CallToolResult;
+    },
+    async close() {
+      await client.close();
+      await server.close();
+      rmSync(dataDir, { recursive: true, force: true });
+    }
+  };
+}
+
+export interface FakeKrea {
+  baseUrl: string;
+  /** `METHOD path` of every request received, in order. */
+  requests: string[];
+  /** Sent instead of the real webhook token when set, as a forged callback would be. */
+  forgedToken?: string;
+  close(): Promise<void>;
+}
+
+/**
+ * A fake Krea that queues every job it is sent and reports it completed on the
+ * first poll, and to the `webhookUrl` of the create request when there is one.
+ */
+export async function startFakeKrea(): Promise<FakeKrea> {
+  let jobs = 0;
+  const completed = (jobId: string) => ({
+    job_id: jobId,
+    status: "completed",
+    result: { urls: [`https://gen.krea.ai/images/${jobId}.png`] }
+  });
+  const server: Server = createHttpServer(async (req, res) => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) {
+      chunks.push(chunk as Buffer);
+    }
+    fake.requests.push(`${req.method} ${req.url}`);
+    res.writeHead(200, { "Content-Type": "application/json" });
+
+    if (req.method === "GET" && req.url?.startsWith("/jobs/")) {
+      res.end(JSON.stringify(completed(decodeURIComponent(req.url.slice("/jobs/".length)))));
+      return;
+    }
+    const jobId = `job-${++jobs}`;
+    res.end(JSON.stringify({ job_id: jobId, status: "queued" }));
+
+    const { webhookUrl } = JSON.parse(Buffer.concat(chunks).toString("utf8")) as { webhookUrl?: string };
+    if (webhookUrl) {
+      const url = new URL(webhookUrl);
+      if (fake.forgedToken) {
+        url.searchParams.set("token", fake.forgedToken);
+      }
+      await fetch(url, { method: "POST", body: JSON.stringify({ job: completed(jobId) }) });
+    }
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+
+  const fake: FakeKrea = {
+    baseUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    requests: [],
+    close: () => new Promise((resolve) => server.close(() => resolve()))
+  };
+  return fake;
+}
+
+/** The classified error of an `isError` result. */
+export function errorOf(result: CallToolResult): ErrorDetails {
+  const error = result.structuredContent?.error as ErrorDetails | undefined;
+  if (!result.isError || !error) {
+    throw new Error(`Expected an error result, got: ${JSON.stringify(result.content)}`);
+  }
+  return error;
+}
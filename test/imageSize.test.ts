@@ -0,0 +1,75 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { parseImageSize } from "../src/imageSize.js";
+
+function png(width: number, height: number): Buffer {
+  const header = Buffer.alloc(33);
+  Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]).copy(header, 0);
+  header.writeUInt32BE(13, 8);
+  header.write("IHDR", 12, "ascii");
+  header.writeUInt32BE(width, 16);
+  header.writeUInt32BE(height, 20);
+  return header;
+}
+
+function jpegSegment(marker: number, body: Buffer): Buffer {
+  const head = Buffer.from([0xff, marker, 0, 0]);
+  head.writeUInt16BE(body.length + 2, 2);
+  return Buffer.concat([head, body]);
+}
+
+function jpeg(width: number, height: number): Buffer {
+  const frame = Buffer.alloc(15);
+  frame[0] = 8;
+  frame.writeUInt16BE(height, 1);
+  frame.writeUInt16BE(width, 3);
+  return Buffer.concat([
+    Buffer.from([0xff, 0xd8]),
+    jpegSegment(0xe0, Buffer.from("JFIF\0\x01\x01\0\0\x01\0\x01\0\0", "latin1")),
+    jpegSegment(0xe1, Buffer.concat([Buffer.from("Exif\0\0", "latin1"), Buffer.alloc(600, 0xab)])),
+    jpegSegment(0xe2, Buffer.concat([Buffer.from("ICC_PROFILE\0", "latin1"), Buffer.alloc(300)])),
+    jpegSegment(0xc2, frame)
+  ]);
+}
+
+function webp(chunk: "VP8 " | "VP8L" | "VP8X", body: Buffer): Buffer {
+  const header = Buffer.alloc(20);
+  header.write("RIFF", 0, "ascii");
+  header.writeUInt32LE(12 + body.length, 4);
+  header.write("WEBP", 8, "ascii");
+  header.write(chunk, 12, "ascii");
+  header.writeUInt32LE(body.length, 16);
+  return Buffer.concat([header, body]);
+}
+
+test("reads the size of a PNG", () => {
+  assert.deepEqual(parseImageSize(png(1920, 1080)), { width: 1920, height: 1080, format: "png" });
+});
+
+test("reads the size of a JPEG after its APPn segments", () => {
+  assert.deepEqual(parseImageSize(jpeg(4032, 3024)), { width: 4032, height: 3024, format: "jpeg" });
+});
+
+test("reads the size of lossy, lossless and extended WebP", () => {
+  const lossy = Buffer.alloc(10);
+  Buffer.from([0x9d, 0x01, 0x2a]).copy(lossy, 3);
+  lossy.writeUInt16LE(800, 6);
+  lossy.writeUInt16LE(600, 8);
+  assert.deepEqual(parseImageSize(webp("VP8 ", lossy)), { width: 800, height: 600, format: "webp" });
+
+  const lossless = Buffer.alloc(5);
+  lossless[0] = 0x2f;
+  lossless.writeUInt32LE((640 - 1) | ((480 - 1) << 14), 1);
+  assert.deepEqual(parseImageSize(webp("VP8L", lossless)), { width: 640, height: 480, format: "webp" });
+
+  const extended = Buffer.alloc(10);
+  extended.writeUIntLE(5000 - 1, 4, 3);
+  extended.writeUIntLE(3000 - 1, 7, 3);
+  assert.deepEqual(parseImageSize(webp("VP8X", extended)), { width: 5000, height: 3000, format: "webp" });
+});
+
+test("returns undefined for unknown formats and headers cut short", () => {
+  assert.equal(parseImageSize(Buffer.from("GIF89a\x01\0\x01\0", "latin1")), undefined);
+  assert.equal(parseImageSize(png(100, 100).subarray(0, 20)), undefined);
+  assert.equal(parseImageSize(jpeg(100, 100).subarray(0, 700)), undefined);
+});
@@ -0,0 +1,72 @@
+import assert from "node:assert/strict";
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { after, test } from "node:test";
+import { JobStore, type JobRecord } from "../src/jobStore.js";
+
+const dataDirs: string[] = [];
+after(() => {
+  for (const dataDir of dataDirs) {
+    rmSync(dataDir, { recursive: true, force: true });
+  }
+});
+
+function tempDataDir(): string {
+  const dataDir = mkdtempSync(path.join(tmpdir(), "krea-ai-mcp-jobs-"));
+  dataDirs.push(dataDir);
+  return dataDir;
+}
+
+const created = (jobId: string, status = "queued") => ({
+  job_id: jobId,
+  kind: "generate" as const,
+  model: "flux_1_dev",
+  endpoint: "/generate/image/bfl/flux-1-dev",
+  payload_sent: { prompt: "a red fox" },
+  credits: 5,
+  status
+});
+
+test("does not rewrite the registry when a poll changes nothing", async () => {
+  const dataDir = tempDataDir();
+  const store = new JobStore(dataDir);
+  await store.recordCreated(created("job-1"));
+  const update = { status: "completed", imageUrls: ["https://gen.krea.ai/images/job-1.png"], error: null };
+  const first = structuredClone(await store.recordStatus("job-1", update));
+
+  const file = path.join(dataDir, "jobs.json");
+  writeFileSync(file, "sentinel");
+  const second = await store.recordStatus("job-1", { ...update, imageUrls: [...update.imageUrls] });
+
+  assert.equal(readFileSync(file, "utf8"), "sentinel");
+  assert.deepEqual(second, first);
+  assert.equal(second?.status_history.length, 2);
+});
+
+test("drops the oldest finished jobs from before today beyond the cap", async () => {
+  const dataDir = tempDataDir();
+  const old = (jobId: string, day: number, status: string): JobRecord => {
+    const at = new Date(Date.UTC(2020, 0, day)).toISOString();
+    return {
+      ...created(jobId, status),
+      mode: null,
+      status_history: [{ status, at }],
+      image_urls: [],
+      error: null,
+      created_at: at,
+      updated_at: at,
+      completed_at: status === "completed" ? at : null
+    };
+  };
+  const jobs = [old("oldest", 1, "completed"), old("pending", 2, "processing"), old("older", 3, "failed")];
+  writeFileSync(path.join(dataDir, "jobs.json"), JSON.stringify({ version: 1, jobs }));
+
+  const store = new JobStore(dataDir, 3);
+  await store.recordCreated(created("today-1"));
+  await store.recordCreated(created("today-2"));
+  await store.recordCreated(created("today-3"));
+
+  const kept = (await new JobStore(dataDir).list()).map((job) => job.job_id).sort();
+  assert.deepEqual(kept, ["pending", "today-1", "today-2", "today-3"]);
+});
@@ -0,0 +1,96 @@
+import assert from "node:assert/strict";
+import { after, before, describe, test } from "node:test";
+import { errorOf, startTestServer, type TestServer } from "./harness.js";
+
+// The same ids are used by the krea_get_job and krea_wait_for_job cassettes.
+const COMPLETED_JOB = "8d0e7c1a-5b8f-4a2e-9c61-2f4b7d9e0a13";
+const FAILED_JOB = "c2a4e6f8-1b3d-4f5a-8c7e-9d0b2a4c6e81";
+const SLOW_JOB = "5e7a9c1b-3d5f-4b7a-9e1c-3f5a7b9d1e24";
+const UNKNOWN_JOB = "0f2b4d6a-8c1e-4a3b-b5d7-e9f1a3c5b7d9";
+
+let server: TestServer;
+before(async () => {
+  server = await startTestServer();
+});
+after(() => server.close());
+
+describe("krea_get_job", () => {
+  test("returns a completed job", async () => {
+    const result = await server.callTool("krea_get_job", { job_id: COMPLETED_JOB }, "get-job-success");
+
+    assert.ok(!result.isError);
+    assert.equal(result.structuredContent!.status, "completed");
+    assert.deepEqual(result.structuredContent!.image_urls, [`https://gen.krea.ai/images/${COMPLETED_JOB}.png`]);
+  });
+
+  test("reports a failed job as a normal result", async () => {
+    const result = await server.callTool("krea_get_job", { job_id: FAILED_JOB }, "get-job-failure");
+
+    assert.ok(!result.isError);
+    assert.equal(result.structuredContent!.status, "failed");
+    assert.equal(result.structuredContent!.error, "Your prompt was flagged by our content moderation system.");
+  });
+
+  test("classifies a gateway timeout", async () => {
+    const result = await server.callTool("krea_get_job", { job_id: SLOW_JOB }, "get-job-timeout");
+
+    const error = errorOf(result);
+    assert.equal(error.code, "timeout");
+    assert.equal(error.http_status, 504);
+  });
+
+  test("reports an unknown job id as not found", async () => {
+    const result = await server.callTool("krea_get_job", { job_id: UNKNOWN_JOB }, "get-job-missing-job-id");
+
+    const error = errorOf(result);
+    assert.equal(error.code, "not_found");
+    assert.equal(error.http_status, 404);
+  });
+});
+
+describe("krea_wait_for_job", () => {
+  test("polls until the job completes", async () => {
+    const result = await server.callTool(
+      "krea_wait_for_job",
+      { job_id: COMPLETED_JOB, poll_interval_ms: 500 },
+      "wait-for-job-success"
+    );
+
+    assert.ok(!result.isError);
+    assert.equal(result.structuredContent!.status, "completed");
+  });
+
+  test("reports a failed job as a classified error", async () => {
+    const result = await server.callTool(
+      "krea_wait_for_job",
+      { job_id: FAILED_JOB, poll_interval_ms: 500 },
+      "wait-for-job-failure"
+    );
+
+    const error = errorOf(result);
+    assert.equal(error.code, "content_moderated");
+    assert.equal(error.job_id, FAILED_JOB);
+  });
+
+  test("times out while the job is still processing", async () => {
+    const result = await server.callTool(
+      "krea_wait_for_job",
+      { job_id: SLOW_JOB, poll_interval_ms: 3000, timeout_ms: 5000 },
+      "wait-for-job-timeout"
+    );
+
+    const error = errorOf(result);
+    assert.equal(error.code, "timeout");
+    assert.equal(error.job_id, SLOW_JOB);
+  });
+
+  test("reports an unknown job id as not found", async () => {
+    const result = await server.callTool(
+      "krea_wait_for_job",
+      { job_id: UNKNOWN_JOB, poll_interval_ms: 500 },
+      "wait-for-job-missing-job-id"
+    );
+
+    assert.equal(errorOf(result).code, "not_found");
+  });
+});
@@ -0,0 +1,30 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { KREA_IMAGE_MODELS, mergeModelCatalogs, type ModelDefinition } from "../src/models.js";
+
+const model = (endpoint: string, title = endpoint): ModelDefinition => ({
+  title,
+  endpoint,
+  requiredFields: ["prompt"],
+  parameters: {}
+});
+
+test("a later catalog replaces entries with the same key or endpoint", () => {
+  const merged = mergeModelCatalogs(
+    { generated_flux: model("/flux"), shared: model("/old"), kept: model("/kept") },
+    { flux: model("/flux"), shared: model("/new") }
+  );
+
+  assert.deepEqual(Object.keys(merged).sort(), ["flux", "kept", "shared"]);
+  assert.equal(merged.shared.endpoint, "/new");
+});
+
+test("keys within one catalog may share an endpoint", () => {
+  const merged = mergeModelCatalogs(
+    { generated_kontext: model("/generate/image/bfl/flux-1-kontext-dev") },
+    KREA_IMAGE_MODELS as Record<string, ModelDefinition>
+  );
+
+  assert.equal(merged.generated_kontext, undefined);
+  assert.equal(merged.flux_kontext_max.endpoint, merged.flux_kontext_dev.endpoint);
+});
@@ -0,0 +1,74 @@
+import assert from "node:assert/strict";
+import { after, before, test } from "node:test";
+import type { ErrorDetails } from "../src/errors.js";
+import { errorOf, startTestServer, type TestServer } from "./harness.js";
+
+type Upscale = { ok: boolean; source_url: string; result?: Record<string, unknown>; error?: ErrorDetails };
+
+let server: TestServer;
+before(async () => {
+  server = await startTestServer();
+});
+after(() => server.close());
+
+function pipeline(generate: Record<string, unknown> = {}) {
+  return {
+    generate: { model: "flux_1_dev", prompt: "a lighthouse at dusk", poll_interval_ms: 500, ...generate },
+    upscale: { mode: "standard", width: 2048, height: 2048, poll_interval_ms: 500 }
+  };
+}
+
+test("upscales the generated image", async () => {
+  const result = await server.callTool("krea_generate_and_upscale", pipeline(), "pipeline-success");
+
+  assert.ok(!result.isError);
+  const output = result.structuredContent!;
+  const [upscale] = output.upscales as Upscale[];
+  assert.equal(upscale.ok, true);
+  assert.deepEqual(output.image_urls, upscale.result?.image_urls);
+  assert.notDeepEqual(output.image_urls, [upscale.source_url]);
+});
+
+test("fails without upscaling when generation fails", async () => {
+  const result = await server.callTool("krea_generate_and_upscale", pipeline(), "pipeline-generate-failure");
+
+  const error = errorOf(result);
+  assert.equal(error.code, "content_moderated");
+  assert.ok(error.job_id);
+});
+
+test("keeps the generated image when its upscale fails", async () => {
+  const result = await server.callTool("krea_generate_and_upscale", pipeline(), "pipeline-upscale-failure");
+
+  assert.ok(!result.isError);
+  const output = result.structuredContent!;
+  const [upscale] = output.upscales as Upscale[];
+  assert.equal(upscale.ok, false);
+  assert.equal(upscale.error?.code, "upstream_error");
+  assert.deepEqual(output.image_urls, [upscale.source_url]);
+  assert.equal(output.failed, 1);
+});
+
+test("times out while the generation is still processing", async () => {
+  const result = await server.callTool(
+    "krea_generate_and_upscale",
+    pipeline({ poll_interval_ms: 3000, timeout_ms: 5000 }),
+    "pipeline-timeout"
+  );
+
+  const error = errorOf(result);
+  assert.equal(error.code, "timeout");
+  assert.ok(error.job_id);
+});
+
+test("classifies an upscale create response without a job id", async () => {
+  const result = await server.callTool("krea_generate_and_upscale", pipeline(), "pipeline-missing-job-id");
+
+  assert.ok(!result.isError);
+  const output = result.structuredContent!;
+  const [upscale] = output.upscales as Upscale[];
+  assert.equal(upscale.ok, false);
+  assert.equal(upscale.error?.code, "upstream_error");
+  assert.match(upscale.error?.message ?? "", /does not include job id/);
+  assert.deepEqual(output.image_urls, [upscale.source_url]);
+});
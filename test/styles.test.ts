@@ -0,0 +1,70 @@
+import assert from "node:assert/strict";
+import { after, before, test } from "node:test";
+import { errorOf, startTestServer, type TestServer } from "./harness.js";
+
+const WATERCOLOR = {
+  name: "watercolor",
+  images: ["https://gen.krea.ai/images/4b2d6f80-style-1.png", "https://gen.krea.ai/images/9e1a3c5b-style-2.png"],
+  trigger_word: "wtrclr",
+  wait_for_completion: true,
+  poll_interval_ms: 1000
+};
+
+let server: TestServer;
+before(async () => {
+  server = await startTestServer();
+});
+after(() => server.close());
+
+test("returns the style id of a finished training job", async () => {
+  const result = await server.callTool("krea_train_style", WATERCOLOR, "train-style-success");
+
+  assert.ok(!result.isError);
+  const output = result.structuredContent!;
+  assert.equal(output.status, "completed");
+  assert.equal(output.style_id, `style-${(output.job_id as string).slice(0, 8)}`);
+  assert.deepEqual(output.payload_sent, { name: "watercolor", urls: WATERCOLOR.images, trigger_word: "wtrclr" });
+});
+
+test("reports a failed training job as a classified error", async () => {
+  const result = await server.callTool("krea_train_style", WATERCOLOR, "train-style-failure");
+
+  const error = errorOf(result);
+  assert.equal(error.code, "upstream_error");
+  assert.match(error.message, /training failed/);
+  assert.ok(error.job_id);
+});
+
+test("times out with the job id so training can be resumed", async () => {
+  const result = await server.callTool(
+    "krea_train_style",
+    { ...WATERCOLOR, poll_interval_ms: 3000, timeout_ms: 5000 },
+    "train-style-timeout"
+  );
+
+  const error = errorOf(result);
+  assert.equal(error.code, "timeout");
+  assert.ok(error.job_id);
+});
+
+test("rejects a create response without a job id", async () => {
+  const result = await server.callTool("krea_train_style", WATERCOLOR, "train-style-missing-job-id");
+
+  const error = errorOf(result);
+  assert.equal(error.code, "upstream_error");
+  assert.match(error.message, /does not include job id/);
+  assert.equal(error.job_id, null);
+});
+
+test("refuses to delete a style when KREA_DRY_RUN is set", async () => {
+  process.env.KREA_DRY_RUN = "1";
+  try {
+    const result = await server.callTool("krea_delete_style", { style_id: "style-b6e393c0" });
+
+    const error = errorOf(result);
+    assert.equal(error.code, "validation_failed");
+    assert.match(error.message, /krea_delete_style has no dry-run mode/);
+  } finally {
+    delete process.env.KREA_DRY_RUN;
+  }
+});
@@ -0,0 +1,102 @@
+import assert from "node:assert/strict";
+import { after, before, test } from "node:test";
+import { errorOf, startTestServer, type TestServer } from "./harness.js";
+
+const SOURCE = {
+  image_url: "https://gen.krea.ai/images/3f1c9a52-source.png",
+  width: 2048,
+  height: 2048,
+  poll_interval_ms: 500
+};
+
+let server: TestServer;
+before(async () => {
+  server = await startTestServer();
+});
+after(() => server.close());
+
+test("returns the upscaled image of a completed job", async () => {
+  const result = await server.callTool("krea_upscale_image", SOURCE, "upscale-success");
+
+  assert.ok(!result.isError);
+  const output = result.structuredContent!;
+  assert.equal(output.status, "completed");
+  assert.equal(output.endpoint, "/generate/enhance/topaz/standard-enhance");
+  assert.deepEqual(output.image_urls, [`https://gen.krea.ai/images/${output.job_id}.png`]);
+});
+
+test("reports a failed job as a retryable upstream error", async () => {
+  const result = await server.callTool("krea_upscale_image", SOURCE, "upscale-failure");
+
+  const error = errorOf(result);
+  assert.equal(error.code, "upstream_error");
+  assert.equal(error.retryable, true);
+  assert.equal(error.message, "Upscaling failed due to an internal error.");
+  assert.ok(error.job_id);
+});
+
+test("times out with the job id so the job can be resumed", async () => {
+  const result = await server.callTool(
+    "krea_upscale_image",
+    { ...SOURCE, poll_interval_ms: 3000, timeout_ms: 5000 },
+    "upscale-timeout"
+  );
+
+  const error = errorOf(result);
+  assert.equal(error.code, "timeout");
+  assert.ok(error.job_id);
+});
+
+test("rejects a create response without a job id", async () => {
+  const result = await server.callTool("krea_upscale_image", SOURCE, "upscale-missing-job-id");
+
+  const error = errorOf(result);
+  assert.equal(error.code, "upstream_error");
+  assert.match(error.message, /does not include job id/);
+});
+
+test("scales by the source size and clamps to each mode's limit", async () => {
+  const header = Buffer.alloc(33);
+  Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 13]).copy(header);
+  header.write("IHDR", 12, "ascii");
+  header.writeUInt32BE(4000, 16);
+  header.writeUInt32BE(2000, 20);
+  const image_url = `data:image/png;base64,${header.toString("base64")}`;
+  const preview = async (args: Record<string, unknown>) => {
+    const result = await server.callTool("krea_upscale_image", { image_url, dry_run: true, ...args });
+    assert.ok(!result.isError, JSON.stringify(result.content));
+    const { payload_sent, warnings } = result.structuredContent as {
+      payload_sent: { width: number; height: number };
+      warnings: string[];
+    };
+    return { size: `${payload_sent.width}x${payload_sent.height}`, warnings: warnings.join(" ") };
+  };
+
+  assert.equal((await preview({ scale: 2 })).size, "8000x4000");
+  assert.equal((await preview({ scale: 4, max_long_edge: 6000 })).size, "6000x3000");
+
+  const standard = await preview({ scale: 10 });
+  assert.equal(standard.size, "32000x16000");
+  assert.match(standard.warnings, /32000px limit of standard mode/);
+
+  const bloom = await preview({ mode: "bloom", max_long_edge: 20000 });
+  assert.equal(bloom.size, "10000x5000");
+  assert.match(bloom.warnings, /10000px limit of bloom mode/);
+
+  const tooWide = await server.callTool("krea_upscale_image", { image_url, dry_run: true, mode: "bloom", width: 12000 });
+  assert.equal(errorOf(tooWide).field, "width");
+  assert.match(errorOf(tooWide).message, /Use width 10000 or less/);
+});
+
+test("rejects a data URI with broken percent-encoding", async () => {
+  const result = await server.callTool("krea_upscale_image", {
+    image_url: "data:image/png,%E0%A4%A",
+    scale: 2,
+    dry_run: true
+  });
+
+  const error = errorOf(result);
+  assert.equal(error.code, "validation_failed");
+  assert.equal(error.field, "image_url");
+  assert.equal(error.message, "Invalid data URI.");
+});
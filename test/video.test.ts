@@ -0,0 +1,67 @@
+import assert from "node:assert/strict";
+import { after, before, test } from "node:test";
+import { errorOf, startTestServer, type TestServer } from "./harness.js";
+
+const WAVES = {
+  model: "kling_2_1_master",
+  prompt: "waves rolling onto a beach at sunset",
+  duration: 5,
+  poll_interval_ms: 1000
+};
+
+let server: TestServer;
+before(async () => {
+  server = await startTestServer();
+});
+after(() => server.close());
+
+test("returns the videos of a completed job", async () => {
+  const result = await server.callTool("krea_generate_video", WAVES, "video-success");
+
+  assert.ok(!result.isError);
+  const output = result.structuredContent!;
+  assert.equal(output.status, "completed");
+  assert.equal(output.endpoint, "/generate/video/kling/kling-2.1-master");
+  assert.deepEqual(output.video_urls, [`https://gen.krea.ai/videos/${output.job_id}.mp4`]);
+  assert.deepEqual(output.payload_sent, { prompt: WAVES.prompt, duration: 5 });
+});
+
+test("reports a failed job as a classified error and keeps the output", async () => {
+  const result = await server.callTool("krea_generate_video", WAVES, "video-failure");
+
+  const error = errorOf(result);
+  assert.equal(error.code, "content_moderated");
+  const output = result.structuredContent!.result as Record<string, unknown>;
+  assert.equal(output.status, "failed");
+  assert.equal(error.job_id, output.job_id);
+});
+
+test("times out with the job id so the job can be resumed", async () => {
+  const result = await server.callTool(
+    "krea_generate_video",
+    { ...WAVES, poll_interval_ms: 3000, timeout_ms: 5000 },
+    "video-timeout"
+  );
+
+  const error = errorOf(result);
+  assert.equal(error.code, "timeout");
+  assert.equal(error.retryable, true);
+  assert.ok(error.job_id);
+});
+
+test("rejects a create response without a job id", async () => {
+  const result = await server.callTool("krea_generate_video", WAVES, "video-missing-job-id");
+
+  const error = errorOf(result);
+  assert.equal(error.code, "upstream_error");
+  assert.match(error.message, /does not include job id/);
+  assert.equal(error.job_id, null);
+});
+
+test("rejects downloads for a call that does not wait", async () => {
+  const result = await server.callTool("krea_generate_video", { ...WAVES, wait_for_completion: false, download: true });
+
+  const error = errorOf(result);
+  assert.equal(error.code, "validation_failed");
+  assert.equal(error.field, "download");
+});
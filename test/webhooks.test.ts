@@ -0,0 +1,151 @@
+import assert from "node:assert/strict";
+import { mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { after, before, describe, test } from "node:test";
+import type { CassetteInteraction } from "../src/cassette.js";
+import { WebhookReceiver } from "../src/webhooks.js";
+import { startFakeKrea, startTestServer, type FakeKrea, type TestServer } from "./harness.js";
+
+const SECRET = "test-webhook-secret";
+
+let receiver: WebhookReceiver;
+let callbackUrl: string;
+before(async () => {
+  receiver = new WebhookReceiver({ host: "127.0.0.1", port: 0, secret: SECRET, graceMs: 0 });
+  callbackUrl = await receiver.callbackUrl();
+});
+
+/** Posts a job event the way Krea calls the webhook, optionally with another token. */
+async function postEvent(body: string | Record<string, unknown>, token: string | null = SECRET): Promise<Response> {
+  const url = new URL(callbackUrl);
+  if (token === null) {
+    url.searchParams.delete("token");
+  } else {
+    url.searchParams.set("token", token);
+  }
+  return fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: typeof body === "string" ? body : JSON.stringify(body)
+  });
+}
+
+test("listens on a free port and puts the secret in the callback URL", () => {
+  const url = new URL(callbackUrl);
+  assert.equal(url.hostname, "127.0.0.1");
+  assert.notEqual(url.port, "0");
+  assert.equal(url.pathname, "/krea/webhook");
+  assert.equal(url.searchParams.get("token"), SECRET);
+});
+
+test("delivers an event to the call waiting for the job", async () => {
+  const event = { job: { id: "job-delivered", status: "completed" } };
+  const waiting = receiver.nextEvent("job-delivered", 5000);
+
+  const response = await postEvent(event);
+  assert.equal(response.status, 200);
+  assert.deepEqual(await response.json(), { received: true });
+  assert.deepEqual(await waiting, event);
+});
+
+test("buffers an event that arrives before anyone waits", async () => {
+  const event = { job: { id: "job-buffered", status: "processing" } };
+  assert.equal((await postEvent(event)).status, 200);
+
+  assert.deepEqual(await receiver.nextEvent("job-buffered", 0), event);
+  assert.equal(await receiver.nextEvent("job-buffered", 50), undefined, "a buffered event is handed out once");
+});
+
+test("keeps only the latest buffered event per job", async () => {
+  await postEvent({ job: { id: "job-latest", status: "processing" } });
+  await postEvent({ job: { id: "job-latest", status: "completed" } });
+
+  assert.deepEqual(await receiver.nextEvent("job-latest", 0), { job: { id: "job-latest", status: "completed" } });
+});
+
+test("resolves undefined when no event arrives in time", async () => {
+  assert.equal(await receiver.nextEvent("job-silent", 50), undefined);
+});
+
+test("rejects the wait when the signal aborts", async () => {
+  const controller = new AbortController();
+  const waiting = receiver.nextEvent("job-aborted", 5000, controller.signal);
+  controller.abort(new Error("cancelled"));
+
+  await assert.rejects(waiting, /cancelled/);
+});
+
+test("rejects events without the secret token", async () => {
+  const event = { job: { id: "job-forged", status: "completed" } };
+
+  assert.equal((await postEvent(event, null)).status, 401);
+  assert.equal((await postEvent(event, "wrong-secret")).status, 401);
+  assert.equal(await receiver.nextEvent("job-forged", 50), undefined);
+});
+
+test("rejects bodies that are not JSON or have no job id", async () => {
+  const invalid = await postEvent("{not json");
+  assert.equal(invalid.status, 400);
+  assert.match((await invalid.json()).error, /Invalid request body/);
+
+  const anonymous = await postEvent({ job: { status: "completed" } });
+  assert.equal(anonymous.status, 400);
+  assert.deepEqual(await anonymous.json(), { error: "Event does not include a job id." });
+});
+
+describe("waiting with webhooks", () => {
+  let fake: FakeKrea;
+  let server: TestServer;
+  before(async () => {
+    fake = await startFakeKrea();
+    server = await startTestServer({
+      KREA_API_KEY: "test-api-key",
+      KREA_API_BASE_URL: fake.baseUrl,
+      KREA_WEBHOOK_PORT: "0",
+      KREA_WEBHOOK_GRACE_MS: "1000"
+    });
+  });
+  after(async () => {
+    await server.close();
+    await fake.close();
+  });
+
+  const generate = { model: "flux_1_dev", prompt: "a red fox in the snow", poll_interval_ms: 500 };
+  const polls = () => fake.requests.filter((request) => request.startsWith("GET /jobs/")).length;
+
+  test("completes from the callback without polling", async () => {
+    fake.requests.length = 0;
+    const result = await server.callTool("krea_generate_image", generate);
+
+    assert.ok(!result.isError);
+    assert.equal(result.structuredContent!.status, "completed");
+    assert.equal(polls(), 0);
+  });
+
+  test("ignores a forged callback and polls after the grace period", async () => {
+    fake.requests.length = 0;
+    fake.forgedToken = "forged";
+    const result = await server.callTool("krea_generate_image", generate);
+
+    assert.ok(!result.isError);
+    assert.equal(result.structuredContent!.status, "completed");
+    assert.equal(polls(), 1);
+  });
+
+  test("redacts the webhook token when recording a cassette", async () => {
+    const dir = mkdtempSync(path.join(tmpdir(), "krea-ai-mcp-cassette-"));
+    process.env.KREA_RECORD = path.join(dir, "cassette.json");
+    try {
+      assert.ok(!(await server.callTool("krea_generate_image", generate)).isError);
+      const { interactions } = JSON.parse(readFileSync(process.env.KREA_RECORD, "utf8")) as {
+        interactions: CassetteInteraction[];
+      };
+      const { webhookUrl } = interactions[0].request.body as { webhookUrl: string };
+      assert.equal(new URL(webhookUrl).searchParams.get("token"), "<redacted>");
+    } finally {
+      delete process.env.KREA_RECORD;
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});